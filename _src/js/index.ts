@@ -1,11 +1,15 @@
-import { setup } from "./modules/setup";
+import { defineLive2DModelElement } from "./modules/element";
+import { createLive2D, setup } from "./modules/setup";
+
+window.createLive2D = createLive2D;
+defineLive2DModelElement();
 
 (async () => {
   const result = await setup();
   if (!result) return;
 
   const { model } = result;
-  model.playAnimation("idle");
+  model.setIdleAnimation("idle").catch((e) => console.error(e));
 
   document
     .querySelectorAll('[data-js-trigger="switchAnimation"]')
@@ -14,11 +18,25 @@ import { setup } from "./modules/setup";
         if (!(e.target instanceof HTMLButtonElement)) return;
         const animationName = e.target.dataset.jsAttributes;
         if (!animationName) return;
-        model.setNextAnimation(
-          animationName,
-          true,
-          model.currentAnimation === "idle"
-        );
+        if (animationName === model.idleAnimation) {
+          model.cancelAnimation();
+          return;
+        }
+        model.playAnimation(animationName).catch(() => undefined);
+      });
+    });
+
+  document
+    .querySelectorAll('[data-js-trigger="switchExpression"]')
+    .forEach((element) => {
+      element.addEventListener("click", (e) => {
+        if (!(e.target instanceof HTMLButtonElement)) return;
+        const expressionName = e.target.dataset.jsAttributes;
+        if (!expressionName) {
+          model.clearExpression();
+          return;
+        }
+        model.setExpression(expressionName);
       });
     });
 })();
@@ -0,0 +1,641 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Animation,
+  AnimationGroup,
+  AnimationLayer,
+  AnimationModelTarget,
+  builtinAnimationBlenders,
+  IAnimationBlender,
+  StackFlags,
+} from "./animation";
+import { Motion3Json, parseMotion3Json } from "./parser";
+
+const motionsDir = path.resolve(__dirname, "../../assets/Er/motions");
+const motionFiles = fs
+  .readdirSync(motionsDir)
+  .filter((file) => file.endsWith(".motion3.json"));
+const readMotion = (file: string) =>
+  JSON.parse(fs.readFileSync(path.join(motionsDir, file), "utf8"));
+
+type Target = {
+  parameters: { ids: string[]; values: Float32Array; defaultValues: number[] };
+  parts: { ids: string[]; opacities: Float32Array };
+};
+
+const createTarget = (): Target => {
+  const parameterIds = new Set(["ParamMouthOpenY", "ParamUnused"]);
+  const partIds = new Set(["PartUnused"]);
+  motionFiles.forEach((file) =>
+    (readMotion(file) as Motion3Json).Curves.forEach(({ Target, Id }) => {
+      if (Target === "Parameter") parameterIds.add(Id);
+      if (Target === "PartOpacity") partIds.add(Id);
+    })
+  );
+  const ids = [...parameterIds];
+  return {
+    parameters: {
+      ids,
+      values: new Float32Array(ids.length),
+      defaultValues: ids.map((_id, i) => (i % 3) * 0.25),
+    },
+    parts: { ids: [...partIds], opacities: new Float32Array(partIds.size) },
+  };
+};
+
+const asCoreModel = (target: Target) =>
+  target as unknown as Live2DCubismCore.Model;
+
+const createStackFlags = (target: Target): StackFlags => [
+  new Uint8Array(target.parameters.ids.length),
+  new Uint8Array(target.parts.ids.length),
+];
+
+/**
+ * The evaluation as it was before motions were bound to the model: a linear
+ * segment search, and ids, groups and initial values looked up every frame.
+ */
+const createReference = (motion3Json: Motion3Json) => {
+  type Point = { time: number; value: number };
+  type Track = { target: string; id: string; points: Point[]; types: number[] };
+
+  const lerp = (a: Point, b: Point, t: number) => ({
+    time: a.time + (b.time - a.time) * t,
+    value: a.value + (b.value - a.value) * t,
+  });
+  const evaluateSegment = (
+    type: number,
+    points: Point[],
+    offset: number,
+    time: number
+  ) => {
+    if (type === 1) {
+      const t =
+        (time - points[offset].time) /
+        (points[offset + 3].time - points[offset].time);
+      const p01 = lerp(points[offset], points[offset + 1], t);
+      const p12 = lerp(points[offset + 1], points[offset + 2], t);
+      const p23 = lerp(points[offset + 2], points[offset + 3], t);
+      return lerp(lerp(p01, p12, t), lerp(p12, p23, t), t).value;
+    }
+    if (type === 2) return points[offset].value;
+    if (type === 3) return points[offset + 1].value;
+    const t =
+      (time - points[offset].time) /
+      (points[offset + 1].time - points[offset].time);
+    return (
+      points[offset].value +
+      (points[offset + 1].value - points[offset].value) * t
+    );
+  };
+
+  const tracks: (Track & { offsets: number[] })[] = motion3Json.Curves.map(
+    ({ Target, Id, Segments: s }) => {
+      const points: Point[] = [{ time: s[0], value: s[1] }];
+      const types: number[] = [];
+      const offsets: number[] = [];
+      for (let t = 2; t < s.length; t += 3) {
+        offsets.push(points.length - 1);
+        types.push(s[t]);
+        if (s[t] === 1) {
+          points.push({ time: s[t + 1], value: s[t + 2] });
+          points.push({ time: s[t + 3], value: s[t + 4] });
+          t += 4;
+        }
+        points.push({ time: s[t + 1], value: s[t + 2] });
+      }
+      return { target: Target, id: Id, points, types, offsets };
+    }
+  );
+  const evaluateTrack = (track: typeof tracks[number], time: number) => {
+    const { offsets, points, types } = track;
+    const s =
+      offsets.length > 1
+        ? offsets.findIndex(
+            (_offset, i) =>
+              i === offsets.length - 1 || points[offsets[i + 1]].time >= time
+          )
+        : 0;
+    return evaluateSegment(types[s], points, offsets[s], time);
+  };
+
+  return (
+    time: number,
+    weight: number,
+    blend: IAnimationBlender,
+    target: Target,
+    stackFlags: StackFlags,
+    model: AnimationModelTarget | null
+  ) => {
+    const modelTracks = tracks.filter((track) => track.target === "Model");
+    const parameterTracks = tracks.filter(
+      (track) => track.target === "Parameter"
+    );
+    const writeParameter = (index: number, value: number, initial: number) => {
+      if (!stackFlags[0][index]) {
+        target.parameters.values[index] =
+          target.parameters.defaultValues[index];
+        stackFlags[0][index] = 1;
+      }
+      target.parameters.values[index] = blend(
+        target.parameters.values[index],
+        value,
+        initial,
+        weight
+      );
+    };
+
+    const eyeBlinkTrack = modelTracks.find((track) => track.id === "EyeBlink");
+    const lipSyncTrack = modelTracks.find((track) => track.id === "LipSync");
+    const eyeBlinkIds = (model && model.groups["EyeBlink"]?.ids) || [];
+    const lipSyncIds = (model && model.groups["LipSync"]?.ids) || [];
+    const groupedValue = (id: string, value: number, time: number) => {
+      if (eyeBlinkTrack && eyeBlinkIds.includes(id)) {
+        value *= evaluateTrack(eyeBlinkTrack, time);
+      }
+      if (lipSyncTrack && lipSyncIds.includes(id)) {
+        value += evaluateTrack(lipSyncTrack, time);
+      }
+      return value;
+    };
+
+    parameterTracks.forEach((track) => {
+      const index = target.parameters.ids.indexOf(track.id);
+      if (index === -1) return;
+      writeParameter(
+        index,
+        groupedValue(track.id, evaluateTrack(track, time), time),
+        groupedValue(track.id, evaluateTrack(track, 0), 0)
+      );
+    });
+
+    tracks
+      .filter((track) => track.target === "PartOpacity")
+      .forEach((track) => {
+        const index = target.parts.ids.indexOf(track.id);
+        if (index === -1) return;
+        if (!stackFlags[1][index]) {
+          target.parts.opacities[index] = 1;
+          stackFlags[1][index] = 1;
+        }
+        target.parts.opacities[index] = blend(
+          target.parts.opacities[index],
+          evaluateTrack(track, time),
+          evaluateTrack(track, 0),
+          weight
+        );
+      });
+
+    modelTracks.forEach((track) => {
+      if (!model) return;
+      if (track.id === "Opacity") {
+        model.opacity = blend(
+          model.opacity,
+          evaluateTrack(track, time),
+          evaluateTrack(track, 0),
+          weight
+        );
+        return;
+      }
+      const group = model.groups[track.id];
+      if (!(group && group.target === "Parameter")) return;
+      group.ids.forEach((groupId) => {
+        if (parameterTracks.some((p) => p.id === groupId)) return;
+        const index = target.parameters.ids.indexOf(groupId);
+        if (index === -1) return;
+        writeParameter(
+          index,
+          evaluateTrack(track, time),
+          evaluateTrack(track, 0)
+        );
+      });
+    });
+  };
+};
+
+/** Deterministic times, jumping back and forth like seeks do. */
+const createTimes = (duration: number) => {
+  const times: number[] = [];
+  for (let time = 0; time <= duration; time += 1 / 60) times.push(time);
+  let seed = 12345;
+  for (let i = 0; i < 300; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    times.push((seed / 2147483648) * duration);
+  }
+  return times;
+};
+
+const modelGroups: Record<string, AnimationGroup> = {
+  EyeBlink: { target: "Parameter", ids: ["ParamEyeOpen"] },
+  LipSync: { target: "Parameter", ids: ["ParamMouthOpenY"] },
+};
+
+/** A motion from a few curves, with a duration of 1. */
+const createAnimation = (
+  meta: Partial<Motion3Json["Meta"]>,
+  curves: Motion3Json["Curves"],
+  userData: Motion3Json["UserData"] = []
+) =>
+  new Animation(
+    parseMotion3Json({
+      Version: 3,
+      Meta: {
+        Duration: 1,
+        Fps: 30,
+        Loop: false,
+        LoopFadeIn: false,
+        AreBeziersRestricted: true,
+        CurveCount: curves.length,
+        TotalSegmentCount: 0,
+        TotalPointCount: 0,
+        UserDataCount: userData.length,
+        TotalUserDataSize: 0,
+        ...meta,
+      },
+      Curves: curves,
+      UserData: userData,
+    }).value
+  );
+
+/** The value an animation alone writes to ParamEyeOpen. */
+const evaluateParameter = (
+  animation: Animation,
+  time: number,
+  wrapTime: (time: number) => void = () => undefined
+) => {
+  const target = createTarget();
+  const index = target.parameters.ids.indexOf("ParamEyeOpen");
+  animation.evaluate(
+    time,
+    wrapTime,
+    1,
+    builtinAnimationBlenders.override,
+    asCoreModel(target),
+    createStackFlags(target),
+    null
+  );
+  return target.parameters.values[index];
+};
+
+/** Runs both evaluations frame by frame and returns the largest difference. */
+const compare = (
+  file: string,
+  blend: IAnimationBlender,
+  models: (() => AnimationModelTarget | null)[]
+) => {
+  const json = readMotion(file);
+  const animation = new Animation(parseMotion3Json(json).value);
+  const reference = createReference(json);
+  const actual = createTarget();
+  const expected = createTarget();
+  let maxDifference = 0;
+
+  createTimes(animation.duration).forEach((time, frame) => {
+    const actualModel = models[frame % models.length]();
+    const expectedModel = actualModel && { ...actualModel };
+    animation.evaluate(
+      time,
+      () => undefined,
+      0.8,
+      blend,
+      asCoreModel(actual),
+      createStackFlags(actual),
+      actualModel
+    );
+    reference(
+      time,
+      0.8,
+      blend,
+      expected,
+      createStackFlags(expected),
+      expectedModel
+    );
+
+    const differences = [
+      ...actual.parameters.values.map((value, i) =>
+        Math.abs(value - expected.parameters.values[i])
+      ),
+      ...actual.parts.opacities.map((value, i) =>
+        Math.abs(value - expected.parts.opacities[i])
+      ),
+      actualModel && expectedModel
+        ? Math.abs(actualModel.opacity - expectedModel.opacity)
+        : 0,
+    ];
+    maxDifference = Math.max(maxDifference, ...differences);
+  });
+  return maxDifference;
+};
+
+describe("Animation.evaluate", () => {
+  const blenders = Object.entries(builtinAnimationBlenders);
+
+  describe.each(motionFiles)("%s", (file) => {
+    test.each(blenders)(
+      "matches the reference without groups (%s)",
+      (_name, blend) => {
+        expect(compare(file, blend, [() => null])).toBeLessThan(1e-5);
+      }
+    );
+
+    test.each(blenders)(
+      "matches the reference with groups (%s)",
+      (_name, blend) => {
+        const model = { groups: modelGroups, opacity: 1 };
+        expect(compare(file, blend, [() => model])).toBeLessThan(1e-5);
+      }
+    );
+
+    test("rebinds when the groups change", () => {
+      const blend = builtinAnimationBlenders.add;
+      const eyeBlinkOnly = {
+        groups: { EyeBlink: modelGroups.EyeBlink },
+        opacity: 1,
+      };
+      const models = [
+        () => ({ groups: modelGroups, opacity: 1 }),
+        () => null,
+        () => eyeBlinkOnly,
+        // A fresh object with the same content every frame.
+        () => ({ groups: { ...modelGroups }, opacity: 0.5 }),
+      ];
+      expect(compare(file, blend, models)).toBeLessThan(1e-5);
+    });
+  });
+
+  test("folds the EyeBlink curve into the initial value of its group", () => {
+    const animation = createAnimation({ Loop: false }, [
+      { Target: "Model", Id: "EyeBlink", Segments: [0, 0.5, 0, 1, 1] },
+      {
+        Target: "Parameter",
+        Id: "ParamEyeOpen",
+        Segments: [0, 0.8, 0, 1, 0.8],
+      },
+    ]);
+    const target = createTarget();
+    const index = target.parameters.ids.indexOf("ParamEyeOpen");
+    animation.evaluate(
+      1,
+      () => undefined,
+      1,
+      builtinAnimationBlenders.add,
+      asCoreModel(target),
+      createStackFlags(target),
+      { groups: modelGroups, opacity: 1 }
+    );
+    // default + (0.8 * 1 - 0.8 * 0.5)
+    expect(target.parameters.values[index]).toBeCloseTo(
+      target.parameters.defaultValues[index] + 0.4
+    );
+  });
+
+  test("wraps a loop overshot several times", () => {
+    const animation = createAnimation({ Loop: true }, [
+      { Target: "Parameter", Id: "ParamEyeOpen", Segments: [0, 0, 0, 1, 1] },
+    ]);
+    const wrapTime = jest.fn();
+    expect(evaluateParameter(animation, 3.25, wrapTime)).toBeCloseTo(0.25);
+    expect(wrapTime).toHaveBeenCalledTimes(1);
+    expect(wrapTime).toHaveBeenCalledWith(0.25);
+  });
+});
+
+describe("Bézier segments", () => {
+  /** The value at a time, the curve parameter found by bisection. */
+  const bisect = (
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    x: number
+  ) => {
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 60; i++) {
+      const t = (low + high) / 2;
+      const u = 1 - t;
+      if (3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t < x) low = t;
+      else high = t;
+    }
+    const t = (low + high) / 2;
+    const u = 1 - t;
+    return 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t;
+  };
+  const createCurve = (
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    restricted: boolean
+  ) =>
+    createAnimation({ Loop: false, AreBeziersRestricted: restricted }, [
+      {
+        Target: "Parameter",
+        Id: "ParamEyeOpen",
+        Segments: [0, 0, 1, x1, y1, x2, y2, 1, 1],
+      },
+    ]);
+
+  test("solves unrestricted ease handles for the time", () => {
+    const animation = createCurve(0.5, 0, 0.5, 1, false);
+    expect(evaluateParameter(animation, 0.25)).toBeCloseTo(0.10589, 5);
+    expect(evaluateParameter(animation, 0.5)).toBeCloseTo(0.5, 5);
+    expect(evaluateParameter(animation, 0.75)).toBeCloseTo(0.89411, 5);
+  });
+
+  test.each([
+    [0.5, 0, 0.5, 1],
+    [0.42, 0, 0.58, 1],
+    [0.1, 0.9, 0.9, 0.1],
+    [0.9, -0.5, 0.1, 1.5],
+    [0.25, 0.1, 0.25, 1],
+  ])("matches bisection for handles (%p, %p) (%p, %p)", (x1, y1, x2, y2) => {
+    const animation = createCurve(x1, y1, x2, y2, false);
+    for (let x = 0; x <= 1; x += 1 / 32) {
+      expect(evaluateParameter(animation, x)).toBeCloseTo(
+        bisect(x1, y1, x2, y2, x),
+        5
+      );
+    }
+  });
+
+  test("uses the normalized time as the curve parameter when restricted", () => {
+    const animation = createCurve(0.5, 0, 0.5, 1, true);
+    // 3t^2 - 2t^3
+    expect(evaluateParameter(animation, 0.25)).toBeCloseTo(0.15625, 5);
+    expect(evaluateParameter(animation, 0.5)).toBeCloseTo(0.5, 5);
+    expect(evaluateParameter(animation, 0.75)).toBeCloseTo(0.84375, 5);
+  });
+});
+
+describe("AnimationLayer", () => {
+  /** Ramps from 0 to 1 over the loop. */
+  const createLoop = (loopFadeIn: boolean) =>
+    createAnimation({ Loop: true, LoopFadeIn: loopFadeIn, FadeInTime: 0.5 }, [
+      { Target: "Parameter", Id: "ParamEyeOpen", Segments: [0, 0, 0, 1, 1] },
+    ]);
+  const evaluateLayer = (layer: AnimationLayer) => {
+    const target = createTarget();
+    const index = target.parameters.ids.indexOf("ParamEyeOpen");
+    target.parameters.defaultValues[index] = 0;
+    layer._evaluate(asCoreModel(target), createStackFlags(target));
+    return target.parameters.values[index];
+  };
+
+  test("fades a looping motion in from its end pose with LoopFadeIn", () => {
+    const layer = new AnimationLayer();
+    layer.play(createLoop(true), 0);
+    layer._update(0.95);
+    expect(evaluateLayer(layer)).toBeCloseTo(0.95);
+
+    layer._update(0.1);
+    expect(layer.currentTime).toBeCloseTo(0.05);
+    // 0.05 at a tenth over the end pose, 1
+    expect(evaluateLayer(layer)).toBeCloseTo(0.9 + 0.05 * 0.1);
+    layer._update(0.2);
+    expect(evaluateLayer(layer)).toBeCloseTo(0.5 + 0.25 * 0.5);
+    layer._update(0.25);
+    expect(evaluateLayer(layer)).toBeCloseTo(0.5);
+  });
+
+  test("fades in from the end pose when the wrap happens during evaluation", () => {
+    const layer = new AnimationLayer();
+    layer.play(createLoop(true), 0);
+    layer.currentTime = 1.1;
+    expect(evaluateLayer(layer)).toBeCloseTo(0.8 + 0.1 * 0.2);
+    expect(layer.currentTime).toBeCloseTo(0.1);
+  });
+
+  test("starts a looping motion over without LoopFadeIn", () => {
+    const layer = new AnimationLayer();
+    layer.play(createLoop(false), 0);
+    layer._update(1.1);
+    expect(evaluateLayer(layer)).toBeCloseTo(0.1);
+  });
+
+  test("reports the end once for an update over several loops", () => {
+    const layer = new AnimationLayer();
+    const onEnd = jest.fn();
+    layer.onAnimationEnd(onEnd);
+    layer.play(createLoop(false), 0);
+    layer._update(3.25);
+    expect(layer.currentTime).toBeCloseTo(0.25);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports the rest of the loop for an update longer than it", () => {
+    const animation = createAnimation(
+      { Loop: true },
+      [{ Target: "Parameter", Id: "ParamEyeOpen", Segments: [0, 1, 0, 1, 1] }],
+      [
+        { Time: 0.1, Value: "start" },
+        { Time: 0.5, Value: "middle" },
+        { Time: 1, Value: "end" },
+      ]
+    );
+    const layer = new AnimationLayer();
+    const events: string[] = [];
+    layer.onUserData((_animation, { value }) => events.push(value));
+    layer.onAnimationEnd(() => events.push("wrap"));
+    layer.play(animation, 0);
+    layer._update(0.3);
+    layer._update(2.5);
+    expect(layer.currentTime).toBeCloseTo(0.8);
+    expect(events).toEqual([
+      "start",
+      "middle",
+      "end",
+      "wrap",
+      "start",
+      "middle",
+    ]);
+  });
+
+  test("reports UserData at the end of a non-looping motion once", () => {
+    const animation = createAnimation(
+      { Loop: false },
+      [{ Target: "Parameter", Id: "ParamEyeOpen", Segments: [0, 1, 0, 1, 1] }],
+      [
+        { Time: 0.5, Value: "middle" },
+        { Time: 1, Value: "end" },
+      ]
+    );
+    const layer = new AnimationLayer();
+    const onUserData = jest.fn();
+    const onEnd = jest.fn();
+    layer.onUserData(onUserData);
+    layer.onAnimationEnd(onEnd);
+    layer.play(animation, 0);
+    for (let i = 0; i < 10; i++) layer._update(0.3);
+    expect(onUserData.mock.calls.map(([, { value }]) => value)).toEqual([
+      "middle",
+      "end",
+    ]);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+
+    layer.seek(0.9);
+    layer._update(0.3);
+    expect(onUserData).toHaveBeenCalledTimes(3);
+  });
+
+  const createConstant = (value: number, id = "ParamEyeOpen") =>
+    createAnimation({ Duration: 10 }, [
+      { Target: "Parameter", Id: id, Segments: [0, value, 0, 10, value] },
+    ]);
+
+  test("fades in over what the outgoing motion keys", () => {
+    const layer = new AnimationLayer();
+    layer.play(createConstant(30), 0);
+    layer.play(createConstant(30), 1);
+    for (let i = 0; i < 4; i++) {
+      layer._update(0.25);
+      expect(evaluateLayer(layer)).toBeCloseTo(30);
+    }
+    expect(layer.isCrossfading).toBe(false);
+  });
+
+  test("fades out to the default what the incoming motion does not key", () => {
+    const layer = new AnimationLayer();
+    layer.play(createConstant(30), 0);
+    layer.play(createConstant(10, "ParamMouthOpenY"), 1);
+    layer._update(0.25);
+    expect(evaluateLayer(layer)).toBeCloseTo(30 * 0.75);
+  });
+
+  test("fades out both sides of a crossfade that a new play interrupts", () => {
+    const layer = new AnimationLayer();
+    layer.play(createConstant(10), 0);
+    layer.play(createConstant(20), 1);
+    layer._update(0.5);
+    // 20 * 0.5 over 10
+    expect(evaluateLayer(layer)).toBeCloseTo(15);
+
+    layer.play(createConstant(30), 1);
+    expect(evaluateLayer(layer)).toBeCloseTo(15);
+    layer._update(0.5);
+    // 30 * 0.5 over both halves as they were
+    expect(evaluateLayer(layer)).toBeCloseTo(15 * 0.5 + 30 * 0.5);
+    layer._update(0.5);
+    expect(evaluateLayer(layer)).toBeCloseTo(30);
+    expect(layer.isCrossfading).toBe(false);
+  });
+
+  test("blends a crossfade into the layers below with its blender", () => {
+    const createRamp = (slope: number) =>
+      createAnimation({ Duration: 10 }, [
+        {
+          Target: "Parameter",
+          Id: "ParamEyeOpen",
+          Segments: [0, 0, 0, 10, 10 * slope],
+        },
+      ]);
+    const layer = new AnimationLayer();
+    layer.blend = builtinAnimationBlenders.add;
+    layer.play(createRamp(1), 0);
+    layer._update(2);
+    layer.play(createRamp(2), 1);
+    layer._update(0.5);
+    // 1 at half weight over 2.5, both relative to their initial 0
+    expect(evaluateLayer(layer)).toBeCloseTo(2.5 * 0.5 + 1 * 0.5);
+  });
+});
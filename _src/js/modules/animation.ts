@@ -1,3 +1,5 @@
+import { Motion3Json } from "./parser";
+
 export type IAnimationBlender = (
   source: number,
   destination: number,
@@ -13,10 +15,12 @@ export const builtinAnimationBlenders: Record<
     destination * weight + source * (1 - weight),
   add: (source, destination, initial, weight) =>
     source + (destination - initial) * weight,
-  multiply: (source, destination, weight) =>
+  multiply: (source, destination, initial, weight) =>
     source * (1 + (destination - 1) * weight),
 };
 
+const DEFAULT_FADE_TIME = 1;
+
 type IAnimationCrossfadeWeighter = (time: number, duration: number) => number;
 
 const builtinCrossfadeWeighters: Record<
@@ -26,51 +30,145 @@ const builtinCrossfadeWeighters: Record<
   linear: (time, duration) => time / duration,
 };
 
+export type AnimationLayerOptions = {
+  blender: IAnimationBlender;
+  crossfadeWeighter: IAnimationCrossfadeWeighter;
+  weight: number;
+};
+
+export const DEFAULT_ANIMATION_LAYER = "base";
+
+/**
+ * Parameter and part flags, non-zero where something has written a value
+ * this frame. The first writer resets the value to its default first.
+ */
+export type StackFlags = [Uint8Array, Uint8Array];
+
+/** An animation of an interrupted crossfade, see AnimationLayer.play. */
+type FadingAnimation = {
+  animation: Animation;
+  time: number;
+  wrapTime: (time: number) => void;
+  weight: (track: AnimationTrack) => number;
+};
+
+/**
+ * Copies of the target that a crossfade is composed in, the values and the
+ * values at time 0 that additive blenders are relative to.
+ */
+type LayerScratch = {
+  target: Live2DCubismCore.Model;
+  values: Live2DCubismCore.Model;
+  initials: Live2DCubismCore.Model;
+  stackFlags: StackFlags;
+  model: AnimationModelTarget;
+};
+
+const createScratchTarget = (target: Live2DCubismCore.Model) =>
+  ({
+    parameters: {
+      ids: target.parameters.ids,
+      defaultValues: target.parameters.defaultValues,
+      values: new Float32Array(target.parameters.ids.length),
+    },
+    parts: {
+      ids: target.parts.ids,
+      opacities: new Float32Array(target.parts.ids.length),
+    },
+  } as unknown as Live2DCubismCore.Model);
+
 export class AnimatorBuilder {
   private _target: Live2DCubismCore.Model;
   private _timeScale = 1;
-  private _layer: {
-    blender: IAnimationBlender;
-    crossfadeWeighter: IAnimationCrossfadeWeighter;
-    weight: number;
-  };
+  private _layers: ({ name: string } & Partial<AnimationLayerOptions>)[];
+  private _groups: Record<string, AnimationGroup>;
 
   constructor({
     target,
     timeScale,
-    layer,
+    layers = [{ name: DEFAULT_ANIMATION_LAYER }],
+    groups = {},
   }: {
     target: AnimatorBuilder["_target"];
     timeScale: AnimatorBuilder["_timeScale"];
-    layer: Partial<AnimatorBuilder["_layer"]>;
+    layers?: AnimatorBuilder["_layers"];
+    groups?: AnimatorBuilder["_groups"];
   }) {
     this._target = target;
     this._timeScale = timeScale;
-    this._layer = {
-      blender: layer.blender || builtinAnimationBlenders.override,
-      crossfadeWeighter: builtinCrossfadeWeighters.linear,
-      weight: layer.weight || 1,
-    };
+    this._layers = [...layers];
+    this._groups = groups;
+  }
+
+  public addLayer(name: string, options: Partial<AnimationLayerOptions> = {}) {
+    this._layers.push({ name, ...options });
+    return this;
   }
 
   public build() {
-    const layer = new AnimationLayer();
-    layer.blend = this._layer.blender;
-    layer.weightCrossfade = this._layer.crossfadeWeighter;
-    layer.weight = this._layer.weight;
-    return new Animator(this._target, this._timeScale, layer);
+    const animator = new Animator(this._target, this._timeScale);
+    animator.groups = this._groups;
+    this._layers.forEach(({ name, ...options }) =>
+      animator.addLayer(name, options)
+    );
+    return animator;
   }
 }
 
-class AnimationLayer {
+export class AnimationLayer {
   private _animation: Animation | null = null;
   private _time = 0;
   private _goalAnimation: Animation | null = null;
   private _goalTime = 0;
   private _fadeTime = 0;
-  private _fadeDuration = 0;
+  private _fadeInDuration = 0;
+  private _fadeOutDuration = 0;
+  private _fadeEndTime = 0;
+  /** Track weights the outgoing animation fades out from, 1 if null. */
+  private _outgoingWeights: Map<AnimationTrack, number> | null = null;
+  /** Fading out along with the outgoing animation, evaluated before it. */
+  private _fadingOut: FadingAnimation[] = [];
+  private _scratch: LayerScratch | null = null;
   private _play = false;
-  private _animationEndCallback: (() => void) | null = null;
+  private _animationEndCallbacks: ((animation: Animation) => void)[] = [];
+  private _endedAnimation: Animation | null = null;
+  /** Whether the animation that owns the layer has wrapped around. */
+  private _looped = false;
+  private _userDataCallbacks: ((
+    animation: Animation,
+    userData: AnimationUserData
+  ) => void)[] = [];
+
+  // Bound once so that evaluating does not allocate closures every frame.
+  private _wrapTimeAndEmitEnd = (time: number) => {
+    const animation = this._animation;
+    this.currentTime = time;
+    this._looped = true;
+    if (animation) this._emitAnimationEnd(animation);
+  };
+  private _wrapTime = (time: number) => {
+    this.currentTime = time;
+  };
+  private _wrapGoalTimeAndEmitEnd = (time: number) => {
+    const goalAnimation = this._goalAnimation;
+    this._goalTime = time;
+    this._looped = true;
+    if (goalAnimation) this._emitAnimationEnd(goalAnimation);
+  };
+  private _fadeOutWeight = (track: AnimationTrack) =>
+    this._fadeOutFrom(this._outgoingWeights, track);
+  private _fadeInWeight = (track: AnimationTrack) =>
+    this._fadeWeight(this._fadeTime, track.fadeInTime ?? this._fadeInDuration) *
+    this._loopFadeInWeight(track);
+  // With Meta.LoopFadeIn, the owning animation fades in again after a wrap.
+  private _loopFadeInWeight = (track: AnimationTrack) => {
+    const animation = this._goalAnimation || this._animation;
+    if (!this._looped || !animation || !animation.loopFadeIn) return 1;
+    return this._fadeWeight(
+      this._goalAnimation ? this._goalTime : this._time,
+      track.fadeInTime ?? animation.fadeInTime
+    );
+  };
 
   public blend: IAnimationBlender = builtinAnimationBlenders.override;
   public weightCrossfade: IAnimationCrossfadeWeighter =
@@ -93,18 +191,62 @@ class AnimationLayer {
     return this._play;
   }
 
-  public play(animation: Animation, fadeDuration = 0) {
-    if (this._animation && fadeDuration > 0) {
+  get isCrossfading() {
+    return !!this._goalAnimation;
+  }
+
+  /** Whether a non-looping animation that owns the layer is held at its end. */
+  get hasEnded() {
+    const animation = this._goalAnimation || this._animation;
+    return !!animation && this._endedAnimation === animation;
+  }
+
+  /**
+   * Crossfades from the current animation over its FadeOutTime while the new
+   * one fades in over its FadeInTime. A fadeDuration overrides both; 0 switches
+   * instantly. Played during a crossfade, both sides of it fade out from
+   * where they are.
+   */
+  public play(animation: Animation, fadeDuration?: number) {
+    const outgoing = this._goalAnimation || this._animation;
+    const fadeInDuration = fadeDuration ?? animation.fadeInTime;
+    const fadeOutDuration =
+      fadeDuration ?? (outgoing ? outgoing.fadeOutTime : 0);
+
+    if (this._animation && Math.max(fadeInDuration, fadeOutDuration) > 0) {
+      this._foldCrossfade();
       this._goalAnimation = animation;
       this._goalTime = 0;
 
       this._fadeTime = 0;
-      this._fadeDuration = fadeDuration;
+      this._fadeInDuration = fadeInDuration;
+      this._fadeOutDuration = fadeOutDuration;
+      this._fadeEndTime = Math.max(
+        fadeInDuration,
+        fadeOutDuration,
+        animation.longestCurveFadeInTime,
+        this._animation.longestCurveFadeOutTime,
+        ...this._fadingOut.map(
+          (fading) => fading.animation.longestCurveFadeOutTime
+        )
+      );
     } else {
       this._animation = animation;
+      this._goalAnimation = null;
+      this._dropFadingOut();
       this.currentTime = 0;
-      this._play = true;
     }
+    this._endedAnimation = null;
+    this._looped = false;
+    this._play = true;
+  }
+
+  /** Stops and forgets the current animation, leaving the layer empty. */
+  public clear() {
+    this._animation = null;
+    this._goalAnimation = null;
+    this._dropFadingOut();
+    this.stop();
   }
 
   public resume() {
@@ -118,104 +260,607 @@ class AnimationLayer {
   public stop() {
     this._play = false;
     this.currentTime = 0;
+    this._looped = false;
   }
 
-  public onAnimationEnd(cb: () => void) {
-    this._animationEndCallback = cb;
+  /**
+   * Jumps to a time of the current animation, clamped to its duration. A
+   * running crossfade is finished first. Keyframes in between are skipped,
+   * without UserData or end callbacks.
+   */
+  public seek(time: number) {
+    if (this._goalAnimation) {
+      this._animation = this._goalAnimation;
+      this._goalAnimation = null;
+      this._dropFadingOut();
+    }
+    if (!this._animation) return;
+
+    const duration = Math.max(this._animation.duration, 0);
+    this.currentTime = Math.min(Math.max(time, 0), duration);
+    // Sought back from the end, a non-looping animation can end again.
+    if (this.currentTime < duration) this._endedAnimation = null;
+  }
+
+  /**
+   * Called each time a looping animation wraps around, and once when a
+   * non-looping animation reaches its end. Returns a function that removes
+   * the callback again.
+   */
+  public onAnimationEnd(cb: (animation: Animation) => void) {
+    this._animationEndCallbacks.push(cb);
+    return () => {
+      this._animationEndCallbacks = this._animationEndCallbacks.filter(
+        (callback) => callback !== cb
+      );
+    };
+  }
+
+  private _emitAnimationEnd(animation: Animation) {
+    [...this._animationEndCallbacks].forEach((cb) => cb(animation));
+  }
+
+  /**
+   * Called with every UserData keyframe the playing animation passes. Returns
+   * a function that removes the callback again.
+   */
+  public onUserData(
+    cb: (animation: Animation, userData: AnimationUserData) => void
+  ) {
+    this._userDataCallbacks.push(cb);
+    return () => {
+      this._userDataCallbacks = this._userDataCallbacks.filter(
+        (callback) => callback !== cb
+      );
+    };
+  }
+
+  /**
+   * Freezes a running crossfade at its current track weights and moves it
+   * to the outgoing side, so that what is visible fades out from there
+   * instead of the incoming animation vanishing.
+   */
+  private _foldCrossfade() {
+    const animation = this._animation;
+    const goalAnimation = this._goalAnimation;
+    if (!animation || !goalAnimation) return;
+
+    this._fadingOut = [
+      ...this._fadingOut.map((fading) =>
+        this._createFadingAnimation(
+          fading.animation,
+          fading.time,
+          fading.weight
+        )
+      ),
+      this._createFadingAnimation(animation, this._time, this._fadeOutWeight),
+    ];
+    this._outgoingWeights = snapshotTrackWeights(
+      goalAnimation,
+      this._fadeInWeight
+    );
+    this._animation = goalAnimation;
+    this._time = this._goalTime;
+    this._goalAnimation = null;
+  }
+
+  /** Fades out from the weights the animation has now. */
+  private _createFadingAnimation(
+    animation: Animation,
+    time: number,
+    weight: (track: AnimationTrack) => number
+  ) {
+    const weights = snapshotTrackWeights(animation, weight);
+    const fading: FadingAnimation = {
+      animation,
+      time,
+      wrapTime: (wrappedTime) => {
+        fading.time = wrappedTime;
+      },
+      weight: (track) => this._fadeOutFrom(weights, track),
+    };
+    return fading;
+  }
+
+  private _fadeOutFrom(
+    weights: Map<AnimationTrack, number> | null,
+    track: AnimationTrack
+  ) {
+    const startWeight = (weights && weights.get(track)) ?? 1;
+    // Under what the incoming animation keys, the outgoing side stays as it
+    // is, so that the incoming one fades in from there, not from the default.
+    if (this._goalAnimation && this._goalAnimation.hasTrack(track.key)) {
+      return startWeight;
+    }
+    return (
+      startWeight *
+      (1 -
+        this._fadeWeight(
+          this._fadeTime,
+          track.fadeOutTime ?? this._fadeOutDuration
+        ))
+    );
+  }
+
+  private _dropFadingOut() {
+    this._fadingOut = [];
+    this._outgoingWeights = null;
   }
 
   public _update(deltaTime: number) {
     if (!this._play) return;
 
-    this._time += deltaTime;
-    this._goalTime += deltaTime;
+    if (this._goalAnimation) {
+      for (let i = 0; i < this._fadingOut.length; i++) {
+        const fading = this._fadingOut[i];
+        fading.time = this._advance(fading.animation, fading.time, deltaTime);
+      }
+      this._time = this._advance(this._animation, this._time, deltaTime);
+    }
+    this._advanceOwner(deltaTime);
     this._fadeTime += deltaTime;
   }
 
-  public _evaluate(target: Live2DCubismCore.Model, stackFlags: any) {
-    if (!this._animation) return;
+  /** Moves a time forward, wrapping it around for looping animations. */
+  private _advance(
+    animation: Animation | null,
+    time: number,
+    deltaTime: number
+  ) {
+    if (!animation) return time + deltaTime;
+
+    const { duration } = animation;
+    const nextTime = time + deltaTime;
+    if (!animation.loop || duration <= 0) {
+      return Math.min(nextTime, Math.max(duration, 0));
+    }
+    if (deltaTime >= duration) return nextTime % duration;
+    return nextTime < duration ? nextTime : nextTime - duration;
+  }
+
+  /**
+   * Moves the animation that owns the layer (the incoming one while
+   * crossfading) forward, then reports the UserData it passed and its end.
+   * The time is stored first, so that the callbacks can play or seek. A jump
+   * longer than a whole loop reports the rest of the loop it started in, the
+   * loop end once and the start of the loop it lands in, instead of
+   * replaying every loop in between.
+   */
+  private _advanceOwner(deltaTime: number) {
+    const goalAnimation = this._goalAnimation;
+    const animation = goalAnimation || this._animation;
+    const time = goalAnimation ? this._goalTime : this._time;
+    const nextTime = this._advance(animation, time, deltaTime);
+    if (goalAnimation) this._goalTime = nextTime;
+    else this._time = nextTime;
+    if (!animation) return;
+
+    const { duration } = animation;
+    if (!animation.loop || duration <= 0) {
+      // Held at its end, it has already reported everything up to there.
+      if (this._endedAnimation === animation) return;
+      const ended = nextTime >= duration;
+      this._emitUserData(animation, time, nextTime, ended);
+      if (ended) {
+        this._endedAnimation = animation;
+        this._emitAnimationEnd(animation);
+      }
+      return;
+    }
+
+    if (deltaTime < duration && time + deltaTime < duration) {
+      this._emitUserData(animation, time, nextTime, false);
+      return;
+    }
+
+    this._looped = true;
+    this._emitUserData(animation, time, duration, true);
+    this._emitAnimationEnd(animation);
+    // Unless an end callback played something else.
+    if ((this._goalAnimation || this._animation) !== animation) return;
+    this._emitUserData(animation, 0, nextTime, false);
+  }
+
+  private _emitUserData(
+    animation: Animation,
+    from: number,
+    to: number,
+    includeEnd: boolean
+  ) {
+    if (!this._userDataCallbacks.length) return;
+    animation.userDataBodys.forEach((userData) => {
+      if (userData.time < from) return;
+      if (includeEnd ? userData.time > to : userData.time >= to) return;
+      [...this._userDataCallbacks].forEach((cb) => cb(animation, userData));
+    });
+  }
+
+  private _fadeWeight(time: number, duration: number) {
+    if (duration <= 0) return 1;
+    return Math.min(Math.max(this.weightCrossfade(time, duration), 0), 1);
+  }
+
+  public _evaluate(
+    target: Live2DCubismCore.Model,
+    stackFlags: StackFlags,
+    model: AnimationModelTarget | null = null
+  ) {
+    this._wrapOwner();
+    const animation = this._animation;
+    if (!animation) return;
 
     const weight = Math.min(this.weight, 1);
 
-    const animationWeight = this._goalAnimation
-      ? weight * this.weightCrossfade(this._fadeTime, this._fadeDuration)
-      : weight;
-    this._animation.evaluate(
-      this._time,
-      () => {
-        this.currentTime = 0;
-        if (this._animationEndCallback) this._animationEndCallback();
-      },
-      animationWeight,
-      this.blend,
-      target,
-      stackFlags
+    if (!this._goalAnimation) {
+      if (this._isLoopFadingIn(animation, this._time)) {
+        this._evaluateComposed(target, stackFlags, model, weight);
+        return;
+      }
+      animation.evaluate(
+        this._time,
+        this._wrapTimeAndEmitEnd,
+        weight,
+        this.blend,
+        target,
+        stackFlags,
+        model
+      );
+      return;
+    }
+
+    const goalAnimation = this._goalAnimation;
+    this._evaluateComposed(target, stackFlags, model, weight);
+
+    if (
+      this._goalAnimation === goalAnimation &&
+      this._fadeTime >= this._fadeEndTime
+    ) {
+      this._animation = goalAnimation;
+      this._time = this._goalTime;
+      this._goalAnimation = null;
+      this._dropFadingOut();
+    }
+  }
+
+  /**
+   * Wraps the time of the animation that owns the layer before it is
+   * evaluated, so that a LoopFadeIn knows to fade in from the end pose.
+   */
+  private _wrapOwner() {
+    const goalAnimation = this._goalAnimation;
+    const animation = goalAnimation || this._animation;
+    if (!animation) return;
+
+    const time = goalAnimation ? this._goalTime : this._time;
+    const wrappedTime = animation.wrapTime(time);
+    if (wrappedTime === time) return;
+    if (goalAnimation) this._wrapGoalTimeAndEmitEnd(wrappedTime);
+    else this._wrapTimeAndEmitEnd(wrappedTime);
+  }
+
+  private _isLoopFadingIn(animation: Animation, time: number) {
+    return (
+      this._looped &&
+      animation.loopFadeIn &&
+      time < Math.max(animation.fadeInTime, animation.longestCurveFadeInTime)
     );
+  }
 
-    if (!this._goalAnimation) return;
+  /**
+   * Composes what the layer shows with the override blender, each animation
+   * on top of the last, then blends the result into the target with the
+   * layer's blender and weight. See _compose.
+   */
+  private _evaluateComposed(
+    target: Live2DCubismCore.Model,
+    stackFlags: StackFlags,
+    model: AnimationModelTarget | null,
+    weight: number
+  ) {
+    if (weight <= 0.01) return;
 
-    const goalAnimationWeight =
-      1 - weight * this.weightCrossfade(this._fadeTime, this._fadeDuration);
-    this._goalAnimation.evaluate(
-      this._goalTime,
-      () => (this.currentTime = 0),
-      goalAnimationWeight,
-      this.blend,
-      target,
-      stackFlags
+    const scratch = this._getScratch(target);
+    const scratchModel = model ? scratch.model : null;
+    if (model) scratch.model.groups = model.groups;
+    // The override blender ignores initial values.
+    const initials =
+      this.blend === builtinAnimationBlenders.override
+        ? scratch.values
+        : scratch.initials;
+    if (initials !== scratch.values) {
+      this._compose(initials, scratch.stackFlags, scratchModel, true);
+    }
+    const initialOpacity = scratch.model.opacity;
+    this._compose(scratch.values, scratch.stackFlags, scratchModel, false);
+
+    const [parameterFlags, partFlags] = scratch.stackFlags;
+    const { values, defaultValues } = target.parameters;
+    const composedValues = scratch.values.parameters.values;
+    const initialValues = initials.parameters.values;
+    for (let i = 0; i < parameterFlags.length; i++) {
+      if (!parameterFlags[i]) continue;
+      if (!stackFlags[0][i]) {
+        values[i] = defaultValues[i];
+        stackFlags[0][i] = 1;
+      }
+      values[i] = this.blend(
+        values[i],
+        composedValues[i],
+        initialValues[i],
+        weight
+      );
+    }
+
+    const { opacities } = target.parts;
+    const composedOpacities = scratch.values.parts.opacities;
+    const initialOpacities = initials.parts.opacities;
+    for (let i = 0; i < partFlags.length; i++) {
+      if (!partFlags[i]) continue;
+      if (!stackFlags[1][i]) {
+        opacities[i] = 1;
+        stackFlags[1][i] = 1;
+      }
+      opacities[i] = this.blend(
+        opacities[i],
+        composedOpacities[i],
+        initialOpacities[i],
+        weight
+      );
+    }
+
+    if (model && this._layerHasTrack("Model/Opacity")) {
+      model.opacity = this.blend(
+        model.opacity,
+        scratch.model.opacity,
+        initialOpacity,
+        weight
+      );
+    }
+  }
+
+  /**
+   * Evaluates every side of a crossfade, or a LoopFadeIn over the end pose
+   * the loop wrapped from. At time 0 for the initials.
+   */
+  private _compose(
+    into: Live2DCubismCore.Model,
+    stackFlags: StackFlags,
+    model: AnimationModelTarget | null,
+    initial: boolean
+  ) {
+    const blend = builtinAnimationBlenders.override;
+    stackFlags[0].fill(0);
+    stackFlags[1].fill(0);
+    if (model) model.opacity = 1;
+
+    const animation = this._animation;
+    const goalAnimation = this._goalAnimation;
+    if (!goalAnimation) {
+      if (!animation) return;
+      animation.evaluate(
+        initial ? 0 : animation.duration,
+        this._wrapTime,
+        1,
+        blend,
+        into,
+        stackFlags,
+        model
+      );
+      animation.evaluate(
+        initial ? 0 : this._time,
+        this._wrapTimeAndEmitEnd,
+        1,
+        blend,
+        into,
+        stackFlags,
+        model,
+        this._loopFadeInWeight
+      );
+      return;
+    }
+
+    for (let i = 0; i < this._fadingOut.length; i++) {
+      const fading = this._fadingOut[i];
+      fading.animation.evaluate(
+        initial ? 0 : fading.time,
+        fading.wrapTime,
+        1,
+        blend,
+        into,
+        stackFlags,
+        model,
+        fading.weight
+      );
+    }
+
+    animation?.evaluate(
+      initial ? 0 : this._time,
+      this._wrapTime,
+      1,
+      blend,
+      into,
+      stackFlags,
+      model,
+      this._fadeOutWeight
     );
 
-    if (this._fadeTime > this._fadeDuration) {
-      this._animation = this._goalAnimation;
-      this._time = this._goalTime;
-      this._goalAnimation = null;
+    // Last, as its wrap reports the end and the callbacks may play another.
+    goalAnimation.evaluate(
+      initial ? 0 : this._goalTime,
+      this._wrapGoalTimeAndEmitEnd,
+      1,
+      blend,
+      into,
+      stackFlags,
+      model,
+      this._fadeInWeight
+    );
+  }
+
+  private _layerHasTrack(key: string) {
+    if (this._animation?.hasTrack(key) || this._goalAnimation?.hasTrack(key)) {
+      return true;
     }
+    return this._fadingOut.some(({ animation }) => animation.hasTrack(key));
+  }
+
+  private _getScratch(target: Live2DCubismCore.Model) {
+    if (this._scratch && this._scratch.target === target) return this._scratch;
+
+    this._scratch = {
+      target,
+      values: createScratchTarget(target),
+      initials: createScratchTarget(target),
+      stackFlags: [
+        new Uint8Array(target.parameters.ids.length),
+        new Uint8Array(target.parts.ids.length),
+      ],
+      model: { groups: {}, opacity: 1 },
+    };
+    return this._scratch;
   }
 }
 
+export type AnimationGroup = { target: string; ids: string[] };
+
+/**
+ * Model-level state that "Model" curves drive: the model3.json Groups that
+ * EyeBlink / LipSync curves resolve against, and the whole-model opacity.
+ */
+export type AnimationModelTarget = {
+  groups: Record<string, AnimationGroup>;
+  opacity: number;
+};
+
+export type AnimatorUserDataEvent = {
+  layer: string;
+  animation: Animation;
+} & AnimationUserData;
+
 export class Animator {
   private _target: Live2DCubismCore.Model;
   private _timeScale: number;
-  private _layer: AnimationLayer;
+  private _layers: { name: string; layer: AnimationLayer }[] = [];
+  private _stackFlags: StackFlags;
+  private _model: AnimationModelTarget = { groups: {}, opacity: 1 };
+  private _userDataCallbacks: ((event: AnimatorUserDataEvent) => void)[] = [];
 
   get timeScale() {
     return this._timeScale;
   }
 
+  set timeScale(value: number) {
+    this._timeScale = value;
+  }
+
   get target() {
     return this._target;
   }
 
-  constructor(
-    target: Animator["_target"],
-    timeScale: Animator["_timeScale"],
-    layer: Animator["_layer"]
-  ) {
+  /** Whole-model opacity driven by "Model" / "Opacity" curves. */
+  get opacity() {
+    return this._model.opacity;
+  }
+
+  get groups() {
+    return this._model.groups;
+  }
+
+  set groups(value: Record<string, AnimationGroup>) {
+    this._model.groups = value;
+  }
+
+  /** Layer names in evaluation order. */
+  get layerNames() {
+    return this._layers.map(({ name }) => name);
+  }
+
+  /**
+   * Parameter and part flags of the last evaluation, set where an animation
+   * has written a value this frame. Anything layered on top of the animator
+   * should evaluate into these as well.
+   */
+  get stackFlags() {
+    return this._stackFlags;
+  }
+
+  constructor(target: Animator["_target"], timeScale: Animator["_timeScale"]) {
     this._target = target;
     this._timeScale = timeScale;
-    this._layer = layer;
+    this._stackFlags = [
+      new Uint8Array(target.parameters.count),
+      new Uint8Array(target.parts.count),
+    ];
+  }
+
+  /** Appends a layer that evaluates on top of the existing ones. */
+  public addLayer(
+    name: string,
+    {
+      blender = builtinAnimationBlenders.override,
+      crossfadeWeighter = builtinCrossfadeWeighters.linear,
+      weight = 1,
+    }: Partial<AnimationLayerOptions> = {}
+  ) {
+    if (this._layers.some((layer) => layer.name === name)) {
+      throw new Error(`animator layer already exists: ${name}`);
+    }
+
+    const layer = new AnimationLayer();
+    layer.blend = blender;
+    layer.weightCrossfade = crossfadeWeighter;
+    layer.weight = weight;
+    layer.onUserData((animation, userData) =>
+      [...this._userDataCallbacks].forEach((cb) =>
+        cb({ layer: name, animation, ...userData })
+      )
+    );
+    this._layers.push({ name, layer });
+    return layer;
   }
 
-  public getLayer() {
-    return this._layer;
+  /** Collects UserData keyframes passed on any layer. */
+  public onUserData(cb: (event: AnimatorUserDataEvent) => void) {
+    this._userDataCallbacks.push(cb);
+    return () => {
+      this._userDataCallbacks = this._userDataCallbacks.filter(
+        (callback) => callback !== cb
+      );
+    };
+  }
+
+  public removeLayer(name: string) {
+    this._layers = this._layers.filter((layer) => layer.name !== name);
+  }
+
+  public getLayer(name = DEFAULT_ANIMATION_LAYER) {
+    const found = this._layers.find((layer) => layer.name === name);
+    if (!found) throw new Error(`unknown animator layer: ${name}`);
+    return found.layer;
   }
 
   public updateAndEvaluate(deltaTime: number) {
     deltaTime *= Math.max(this.timeScale, 0);
 
     if (deltaTime > 0.001) {
-      this._layer._update(deltaTime);
+      this._layers.forEach(({ layer }) => layer._update(deltaTime));
     }
 
-    const paramStackFlags = new Array(this._target.parameters.count).fill(
-      false
-    );
-    const partsStackFlags = new Array(this._target.parts.count).fill(false);
-    const stackFlags = [paramStackFlags, partsStackFlags];
-    this._layer._evaluate(this._target, stackFlags);
+    this._stackFlags[0].fill(0);
+    this._stackFlags[1].fill(0);
+    this._model.opacity = 1;
+    for (let i = 0; i < this._layers.length; i++) {
+      this._layers[i].layer._evaluate(
+        this._target,
+        this._stackFlags,
+        this._model
+      );
+    }
   }
 }
 
+export type AnimationUserData = { time: number; value: string };
+
 type AnimationPoint = {
   time: number;
   value: number;
@@ -227,13 +872,93 @@ type IAnimationSegmentEvaluator = (
   time: number
 ) => number;
 
+const fullTrackWeight = () => 1;
+
+/** The weight of every track of an animation, as it is now. */
+const snapshotTrackWeights = (
+  animation: Animation,
+  weight: (track: AnimationTrack) => number
+) => {
+  const weights = new Map<AnimationTrack, number>();
+  [
+    ...animation.modelTracks,
+    ...animation.parameterTracks,
+    ...animation.partOpacityTracks,
+  ].forEach((track) => weights.set(track, weight(track)));
+  return weights;
+};
+
 type AnimationSegment = {
   offset: number;
   evaluate: IAnimationSegmentEvaluator;
 };
 
+const BEZIER_EPSILON = 0.00001;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/** Value of a cubic Bézier at the curve parameter t. */
+const bezierValue = (points: AnimationPoint[], offset: number, t: number) => {
+  const u = 1 - t;
+  return (
+    u * u * u * points[offset + 0].value +
+    3 * u * u * t * points[offset + 1].value +
+    3 * u * t * t * points[offset + 2].value +
+    t * t * t * points[offset + 3].value
+  );
+};
+
+const solveQuadratic = (a: number, b: number, c: number) => {
+  if (Math.abs(a) < BEZIER_EPSILON) {
+    return Math.abs(b) < BEZIER_EPSILON ? -c : -c / b;
+  }
+  return -(b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+};
+
+/**
+ * Root in [0, 1] of `a t^3 + b t^2 + c t + d` by Cardano's formula, picking
+ * among several real roots the same way as the official framework.
+ */
+const solveCubicForBezier = (a: number, b: number, c: number, d: number) => {
+  if (Math.abs(a) < BEZIER_EPSILON) return clamp01(solveQuadratic(b, c, d));
+
+  const ba = b / a;
+  const ca = c / a;
+  const da = d / a;
+  const p = (3 * ca - ba * ba) / 3;
+  const p3 = p / 3;
+  const q = (2 * ba * ba * ba - 9 * ba * ca + 27 * da) / 27;
+  const q2 = q / 2;
+  const discriminant = q2 * q2 + p3 * p3 * p3;
+
+  const center = 0.5;
+  const threshold = center + 0.01;
+
+  if (discriminant < 0) {
+    const r = Math.sqrt(Math.pow(-p / 3, 3));
+    const phi = Math.acos(Math.min(Math.max(-q / (2 * r), -1), 1));
+    const t1 = 2 * Math.cbrt(r);
+
+    const root1 = t1 * Math.cos(phi / 3) - ba / 3;
+    if (Math.abs(root1 - center) < threshold) return clamp01(root1);
+    const root2 = t1 * Math.cos((phi + 2 * Math.PI) / 3) - ba / 3;
+    if (Math.abs(root2 - center) < threshold) return clamp01(root2);
+    return clamp01(t1 * Math.cos((phi + 4 * Math.PI) / 3) - ba / 3);
+  }
+
+  if (discriminant === 0) {
+    const u1 = q2 < 0 ? Math.cbrt(-q2) : -Math.cbrt(q2);
+    const root1 = 2 * u1 - ba / 3;
+    if (Math.abs(root1 - center) < threshold) return clamp01(root1);
+    return clamp01(-u1 - ba / 3);
+  }
+
+  const sd = Math.sqrt(discriminant);
+  return clamp01(Math.cbrt(sd - q2) - Math.cbrt(sd + q2) - ba / 3);
+};
+
 const builtinAnimationSegmentEvaluators: Record<
-  "linear" | "bezier" | "stepped" | "inverseStepped",
+  "linear" | "bezier" | "unrestrictedBezier" | "stepped" | "inverseStepped",
   IAnimationSegmentEvaluator
 > = {
   linear: (points, offset, time) => {
@@ -242,42 +967,108 @@ const builtinAnimationSegmentEvaluators: Record<
     const t = (time - p0.time) / (p1.time - p0.time);
     return p0.value + (p1.value - p0.value) * t;
   },
+  /**
+   * With Meta.AreBeziersRestricted the handles stay within the segment, and
+   * the normalized time is used as the curve parameter.
+   */
   bezier: (points, offset, time) => {
-    const lerp = (a: AnimationPoint, b: AnimationPoint, t: number) => ({
-      time: a.time + (b.time - a.time) * t,
-      value: a.value + (b.value - a.value) * t,
-    });
-
     const t =
       (time - points[offset + 0].time) /
       (points[offset + 3].time - points[offset].time);
-    const p01 = lerp(points[offset + 0], points[offset + 1], t);
-    const p12 = lerp(points[offset + 1], points[offset + 2], t);
-    const p23 = lerp(points[offset + 2], points[offset + 3], t);
-    const p012 = lerp(p01, p12, t);
-    const p123 = lerp(p12, p23, t);
-
-    return lerp(p012, p123, t).value;
+    return bezierValue(points, offset, Math.max(t, 0));
+  },
+  /** Otherwise the curve parameter is solved for from the time. */
+  unrestrictedBezier: (points, offset, time) => {
+    const x0 = points[offset + 0].time;
+    const x1 = points[offset + 1].time;
+    const x2 = points[offset + 2].time;
+    const x3 = points[offset + 3].time;
+    const t = solveCubicForBezier(
+      x3 - 3 * x2 + 3 * x1 - x0,
+      3 * x2 - 6 * x1 + 3 * x0,
+      3 * x1 - 3 * x0,
+      x0 - time
+    );
+    return bezierValue(points, offset, t);
   },
   stepped: (points, offset) => points[offset + 0].value,
   inverseStepped: (points, offset) => points[offset + 1].value,
 };
 
 class AnimationTrack {
+  /** Value at time 0, the base that additive blending is relative to. */
+  public initialValue: number;
+  /** "<Target>/<Id>", the same for the tracks of two animations that key it. */
+  public key: string;
+  private _segmentStartTimes: Float64Array;
+  private _sorted: boolean;
+  private _cursor = 0;
+
   constructor(
+    public target: string,
     public targetId: string,
     public points: AnimationPoint[],
-    public segments: AnimationSegment[]
-  ) {}
+    public segments: AnimationSegment[],
+    public fadeInTime: number | null = null,
+    public fadeOutTime: number | null = null
+  ) {
+    this.key = `${target}/${targetId}`;
+    this._segmentStartTimes = new Float64Array(
+      segments.map(({ offset }) => points[offset].time)
+    );
+    this._sorted = this._segmentStartTimes.every(
+      (time, i, times) => i === 0 || times[i - 1] <= time
+    );
+    this.initialValue = this.evaluate(0);
+  }
+
+  /**
+   * Finds the first segment that ends at or after the time. Playback mostly
+   * stays in the same segment or moves to the next, so the last one found is
+   * checked first before falling back to a binary search.
+   */
+  private _findSegment(time: number) {
+    const last = this.segments.length - 1;
+    if (last <= 0) return 0;
+
+    const starts = this._segmentStartTimes;
+    if (!this._sorted) {
+      // Out-of-order keyframes: keep the plain first-match semantics.
+      for (let i = 0; i < last; i++) {
+        if (starts[i + 1] >= time) return i;
+      }
+      return last;
+    }
+
+    let s = this._cursor;
+    if (!this._isSegmentAt(s, time)) {
+      if (s < last && this._isSegmentAt(s + 1, time)) {
+        s += 1;
+      } else {
+        let low = 0;
+        let high = last;
+        while (low < high) {
+          const middle = (low + high) >> 1;
+          if (starts[middle + 1] >= time) high = middle;
+          else low = middle + 1;
+        }
+        s = low;
+      }
+    }
+    this._cursor = s;
+    return s;
+  }
+
+  private _isSegmentAt(s: number, time: number) {
+    const starts = this._segmentStartTimes;
+    const last = this.segments.length - 1;
+    return (
+      (s === 0 || starts[s] < time) && (s === last || starts[s + 1] >= time)
+    );
+  }
 
   public evaluate(time: number) {
-    const s =
-      this.segments.length > 1
-        ? this.segments.findIndex((_segment, i) => {
-            if (i === this.segments.length - 1) return true;
-            return this.points[this.segments[i + 1].offset].time >= time;
-          })
-        : 0;
+    const s = this._findSegment(time);
     return this.segments[s].evaluate(
       this.points,
       this.segments[s].offset,
@@ -286,33 +1077,62 @@ class AnimationTrack {
   }
 }
 
+/** Tracks of an animation resolved against one model. */
+type AnimationBinding = {
+  groups: Record<string, AnimationGroup> | null;
+  parameters: {
+    track: AnimationTrack;
+    index: number;
+    initial: number;
+    eyeBlink: boolean;
+    lipSync: boolean;
+  }[];
+  parts: { track: AnimationTrack; index: number }[];
+  /** "Model" curves in file order: Opacity, or the group parameters. */
+  model: { track: AnimationTrack; opacity: boolean; indices: number[] }[];
+  eyeBlinkTrack: AnimationTrack | null;
+  lipSyncTrack: AnimationTrack | null;
+};
+
 export class Animation {
   public duration: number;
   public fps: number;
   public loop: boolean;
+  /** Fade in from the end pose over the fade in time each time it wraps. */
+  public loopFadeIn: boolean;
+  public fadeInTime: number;
+  public fadeOutTime: number;
+  public longestCurveFadeInTime = 0;
+  public longestCurveFadeOutTime = 0;
   public userDataCount: number;
   public totalUserDataSize: number;
   public modelTracks: AnimationTrack[] = [];
   public parameterTracks: AnimationTrack[] = [];
   public partOpacityTracks: AnimationTrack[] = [];
-  public userDataBodys: { time: number; value: string }[] = [];
+  public userDataBodys: AnimationUserData[] = [];
   private _lastTime = 0;
+  private _trackKeys = new Set<string>();
 
-  // TODO: type guard
-  constructor(motion3Json: any) {
-    this.duration = motion3Json["Meta"]["Duration"];
-    this.fps = motion3Json["Meta"]["Fps"];
-    this.loop = motion3Json["Meta"]["Loop"];
-    this.userDataCount = motion3Json["Meta"]["UserDataCount"];
-    this.totalUserDataSize = motion3Json["Meta"]["TotalUserDataSize"];
-    if (motion3Json["UserData"]) {
-      this.userDataBodys = motion3Json["UserData"].map((u: any) => ({
-        time: u["Time"],
-        value: u["Value"],
-      }));
-    }
-    motion3Json["Curves"].forEach((curve: any) => {
-      const s = curve["Segments"];
+  /** Expects a motion3.json checked by parseMotion3Json. */
+  constructor(motion3Json: Motion3Json) {
+    const { Meta } = motion3Json;
+    const evaluateBezier = Meta.AreBeziersRestricted
+      ? builtinAnimationSegmentEvaluators.bezier
+      : builtinAnimationSegmentEvaluators.unrestrictedBezier;
+    this.duration = Meta.Duration;
+    this.fps = Meta.Fps;
+    this.loop = Meta.Loop;
+    this.loopFadeIn = Meta.LoopFadeIn;
+    this.fadeInTime = Meta.FadeInTime ?? DEFAULT_FADE_TIME;
+    this.fadeOutTime = Meta.FadeOutTime ?? DEFAULT_FADE_TIME;
+    this.userDataCount = Meta.UserDataCount;
+    this.totalUserDataSize = Meta.TotalUserDataSize;
+    this.userDataBodys = motion3Json.UserData.map(({ Time, Value }) => ({
+      time: Time,
+      value: Value,
+    }));
+    motion3Json.Curves.forEach((curve) => {
+      const s = curve.Segments;
       const points: AnimationPoint[] = [{ time: s[0], value: s[1] }];
       const segments: AnimationSegment[] = [];
 
@@ -323,10 +1143,7 @@ export class Animation {
             points.push({ time: s[t + 1], value: s[t + 2] });
             points.push({ time: s[t + 3], value: s[t + 4] });
             t += 4;
-            segments.push({
-              offset,
-              evaluate: builtinAnimationSegmentEvaluators.bezier,
-            });
+            segments.push({ offset, evaluate: evaluateBezier });
             break;
           case 2:
             segments.push({
@@ -351,8 +1168,23 @@ export class Animation {
         points.push({ time: s[t + 1], value: s[t + 2] });
       }
 
-      const track = new AnimationTrack(curve["Id"], points, segments);
-      switch (curve["Target"]) {
+      const track = new AnimationTrack(
+        curve.Target,
+        curve.Id,
+        points,
+        segments,
+        curve.FadeInTime ?? null,
+        curve.FadeOutTime ?? null
+      );
+      this.longestCurveFadeInTime = Math.max(
+        this.longestCurveFadeInTime,
+        track.fadeInTime ?? 0
+      );
+      this.longestCurveFadeOutTime = Math.max(
+        this.longestCurveFadeOutTime,
+        track.fadeOutTime ?? 0
+      );
+      switch (curve.Target) {
         case "Model":
           this.modelTracks.push(track);
           break;
@@ -363,86 +1195,197 @@ export class Animation {
           this.partOpacityTracks.push(track);
           break;
         default:
-          break;
+          return;
       }
+      this._trackKeys.add(track.key);
     });
   }
 
+  /** Whether the animation has a track with the key, see AnimationTrack.key. */
+  public hasTrack(key: string) {
+    return this._trackKeys.has(key);
+  }
+
+  private _bindings = new WeakMap<Live2DCubismCore.Model, AnimationBinding>();
+
+  /** Resolves the tracks against the model, again when its groups change. */
+  private _bind(
+    target: Live2DCubismCore.Model,
+    model: AnimationModelTarget | null
+  ) {
+    const groups = model ? model.groups : null;
+    const cached = this._bindings.get(target);
+    if (cached && cached.groups === groups) return cached;
+
+    const eyeBlinkTrack =
+      this.modelTracks.find((track) => track.targetId === "EyeBlink") || null;
+    const lipSyncTrack =
+      this.modelTracks.find((track) => track.targetId === "LipSync") || null;
+    const eyeBlinkIds = (groups && groups["EyeBlink"]?.ids) || [];
+    const lipSyncIds = (groups && groups["LipSync"]?.ids) || [];
+
+    // EyeBlink / LipSync curves scale / offset the parameters of their group
+    // and drive the group parameters that have no curve of their own.
+    const parameters: AnimationBinding["parameters"] = [];
+    this.parameterTracks.forEach((track) => {
+      const index = target.parameters.ids.indexOf(track.targetId);
+      if (index === -1) return;
+
+      const eyeBlink = !!eyeBlinkTrack && eyeBlinkIds.includes(track.targetId);
+      const lipSync = !!lipSyncTrack && lipSyncIds.includes(track.targetId);
+      let initial = track.initialValue;
+      if (eyeBlinkTrack && eyeBlink) initial *= eyeBlinkTrack.initialValue;
+      if (lipSyncTrack && lipSync) initial += lipSyncTrack.initialValue;
+      parameters.push({ track, index, initial, eyeBlink, lipSync });
+    });
+
+    const parts: AnimationBinding["parts"] = [];
+    this.partOpacityTracks.forEach((track) => {
+      const index = target.parts.ids.indexOf(track.targetId);
+      if (index !== -1) parts.push({ track, index });
+    });
+
+    const modelBindings: AnimationBinding["model"] = [];
+    this.modelTracks.forEach((track) => {
+      if (!groups) return;
+      if (track.targetId === "Opacity") {
+        modelBindings.push({ track, opacity: true, indices: [] });
+        return;
+      }
+
+      const group = groups[track.targetId];
+      if (!(group && group.target === "Parameter")) return;
+      const indices = group.ids
+        .filter(
+          (groupId) => !this.parameterTracks.some((p) => p.targetId === groupId)
+        )
+        .map((groupId) => target.parameters.ids.indexOf(groupId))
+        .filter((index) => index !== -1);
+      modelBindings.push({ track, opacity: false, indices });
+    });
+
+    const binding: AnimationBinding = {
+      groups,
+      parameters,
+      parts,
+      model: modelBindings,
+      eyeBlinkTrack,
+      lipSyncTrack,
+    };
+    this._bindings.set(target, binding);
+    return binding;
+  }
+
+  /** The time within the loop, for a looping animation past its end. */
+  public wrapTime(time: number) {
+    if (!this.loop || this.duration <= 0 || time <= this.duration) return time;
+    return time - Math.ceil(time / this.duration - 1) * this.duration;
+  }
+
+  /**
+   * A looping animation past its end is evaluated at the wrapped time, which
+   * is handed to `wrapTime`, however many loops it overshot.
+   */
   public evaluate(
     time: number,
-    resetTime: () => void,
+    wrapTime: (time: number) => void,
     weight: number,
     blend: IAnimationBlender,
     target: Live2DCubismCore.Model,
-    stackFlags: any,
-    groups: any = null
+    stackFlags: StackFlags,
+    model: AnimationModelTarget | null = null,
+    trackWeight: (track: AnimationTrack) => number = fullTrackWeight
   ) {
     if (weight <= 0.01) return;
 
-    if (this.loop) {
-      if (time > this.duration) {
-        resetTime();
-      }
+    const wrappedTime = this.wrapTime(time);
+    if (wrappedTime !== time) {
+      time = wrappedTime;
+      wrapTime(time);
     }
 
-    this.parameterTracks.forEach((track) => {
-      const parametersId = target.parameters.ids.indexOf(track.targetId);
-      if (parametersId === -1) return;
-
-      if (!stackFlags[0][parametersId]) {
-        target.parameters.values[parametersId] =
-          target.parameters.defaultValues[parametersId];
-        stackFlags[0][parametersId] = true;
-      }
+    const binding = this._bind(target, model);
+    const { eyeBlinkTrack, lipSyncTrack } = binding;
+    const eyeBlinkValue = eyeBlinkTrack ? eyeBlinkTrack.evaluate(time) : 1;
+    const lipSyncValue = lipSyncTrack ? lipSyncTrack.evaluate(time) : 0;
 
-      target.parameters.values[parametersId] = blend(
-        target.parameters.values[parametersId],
-        track.evaluate(time),
-        track.evaluate(0),
-        weight
+    for (let i = 0; i < binding.parameters.length; i++) {
+      const { track, index, initial, eyeBlink, lipSync } =
+        binding.parameters[i];
+      let value = track.evaluate(time);
+      if (eyeBlink) value *= eyeBlinkValue;
+      if (lipSync) value += lipSyncValue;
+      this._writeParameter(
+        target,
+        stackFlags,
+        index,
+        blend,
+        value,
+        initial,
+        weight * trackWeight(track)
       );
-    });
-
-    this.partOpacityTracks.forEach((track) => {
-      const partsId = target.parts.ids.indexOf(track.targetId);
-      if (partsId === -1) return;
+    }
 
-      if (!stackFlags[1][partsId]) {
-        target.parts.opacities[partsId] = 1;
-        stackFlags[1][partsId] = true;
+    const { opacities } = target.parts;
+    for (let i = 0; i < binding.parts.length; i++) {
+      const { track, index } = binding.parts[i];
+      if (!stackFlags[1][index]) {
+        opacities[index] = 1;
+        stackFlags[1][index] = 1;
       }
 
-      target.parts.opacities[partsId] = blend(
-        target.parts.opacities[partsId],
+      opacities[index] = blend(
+        opacities[index],
         track.evaluate(time),
-        track.evaluate(0),
-        weight
+        track.initialValue,
+        weight * trackWeight(track)
       );
-    });
+    }
 
-    this.modelTracks.forEach((track) => {
-      if (!groups) return;
-      const group = groups.getGroupById(track.targetId);
-      if (!(group && group.target === "Parameter")) return;
-      group.ids.forEach((groupId: string) => {
-        const parametersId = target.parameters.ids.indexOf(groupId);
-        if (parametersId === -1) return;
-
-        if (!stackFlags[0][parametersId]) {
-          target.parameters.values[parametersId] =
-            target.parameters.defaultValues[parametersId];
-          stackFlags[0][parametersId] = true;
-        }
+    for (let i = 0; i < binding.model.length; i++) {
+      const { track, opacity, indices } = binding.model[i];
+      if (!model) break;
 
-        target.parameters.values[parametersId] = blend(
-          target.parameters.values[parametersId],
+      if (opacity) {
+        model.opacity = blend(
+          model.opacity,
           track.evaluate(time),
-          track.evaluate(0),
-          weight
+          track.initialValue,
+          weight * trackWeight(track)
         );
-      });
-    });
+        continue;
+      }
+
+      for (let j = 0; j < indices.length; j++) {
+        this._writeParameter(
+          target,
+          stackFlags,
+          indices[j],
+          blend,
+          track.evaluate(time),
+          track.initialValue,
+          weight * trackWeight(track)
+        );
+      }
+    }
 
     this._lastTime = time;
   }
+
+  private _writeParameter(
+    target: Live2DCubismCore.Model,
+    stackFlags: StackFlags,
+    index: number,
+    blend: IAnimationBlender,
+    value: number,
+    initial: number,
+    weight: number
+  ) {
+    const { values } = target.parameters;
+    if (!stackFlags[0][index]) {
+      values[index] = target.parameters.defaultValues[index];
+      stackFlags[0][index] = 1;
+    }
+    values[index] = blend(values[index], value, initial, weight);
+  }
 }
@@ -0,0 +1,141 @@
+/**
+ * user: paused from code.
+ * hidden: the page is in a background tab.
+ * offscreen: the model's element is scrolled out of view.
+ */
+export type PauseReason = "user" | "hidden" | "offscreen";
+
+/** Fixed steps per update at most, so a long stall does not pile up work. */
+const MAX_FIXED_STEPS = 5;
+
+/**
+ * Turns the time between frames into the time the model advances by. It can
+ * be paused for several reasons at once and only runs when none is left, so
+ * scrolling back into view does not resume a model paused from code.
+ */
+export class PlaybackClock {
+  private _rate = 1;
+  private _fixedTimestep: number | null = null;
+  private _accumulator = 0;
+  private _pauses = new Set<PauseReason>();
+  private _pauseChangeCallbacks: ((paused: boolean) => void)[] = [];
+
+  /** Playback speed, 1 being real time. */
+  get rate() {
+    return this._rate;
+  }
+
+  set rate(value: number) {
+    this._rate = Math.max(value, 0);
+  }
+
+  /**
+   * Seconds per step when the model advances in fixed steps, or null to
+   * advance by the frame time. Fixed steps make playback independent of the
+   * frame rate.
+   */
+  get fixedTimestep() {
+    return this._fixedTimestep;
+  }
+
+  set fixedTimestep(value: number | null) {
+    if (value !== null && !(value > 0)) {
+      throw new Error(`fixed timestep must be positive: ${value}`);
+    }
+    this._fixedTimestep = value;
+    this._accumulator = 0;
+  }
+
+  get paused() {
+    return this._pauses.size > 0;
+  }
+
+  public isPausedBy(reason: PauseReason) {
+    return this._pauses.has(reason);
+  }
+
+  public pause(reason: PauseReason = "user") {
+    if (this._pauses.has(reason)) return;
+    this._pauses.add(reason);
+    this._emitPauseChange();
+  }
+
+  /** Lifts one reason; the clock stays paused while others are left. */
+  public resume(reason: PauseReason = "user") {
+    if (!this._pauses.delete(reason)) return;
+    this._emitPauseChange();
+  }
+
+  /**
+   * Called whenever a reason to pause is added or lifted, see isPausedBy.
+   * Returns a function that removes the callback again.
+   */
+  public onPauseChange(cb: (paused: boolean) => void) {
+    this._pauseChangeCallbacks.push(cb);
+    return () => {
+      this._pauseChangeCallbacks = this._pauseChangeCallbacks.filter(
+        (callback) => callback !== cb
+      );
+    };
+  }
+
+  private _emitPauseChange() {
+    const paused = this.paused;
+    [...this._pauseChangeCallbacks].forEach((cb) => cb(paused));
+  }
+
+  /**
+   * Calls `step` with the seconds to advance by: once with the scaled frame
+   * time, or once per fixed step that has accumulated. Returns the number of
+   * steps taken, 0 while paused.
+   */
+  public advance(deltaTime: number, step: (deltaTime: number) => void) {
+    if (this.paused) return 0;
+
+    const scaledDeltaTime = Math.max(deltaTime, 0) * this._rate;
+    if (this._fixedTimestep === null) {
+      step(scaledDeltaTime);
+      return 1;
+    }
+
+    this._accumulator += scaledDeltaTime;
+    let steps = 0;
+    while (this._accumulator >= this._fixedTimestep) {
+      if (steps === MAX_FIXED_STEPS) {
+        this._accumulator = 0;
+        break;
+      }
+      step(this._fixedTimestep);
+      this._accumulator -= this._fixedTimestep;
+      steps++;
+    }
+    return steps;
+  }
+}
+
+/**
+ * Pauses the clock while the page is hidden or the element is scrolled out
+ * of view, where nothing of the model can be seen. Returns a function that
+ * stops watching and lifts those pauses again.
+ */
+export const pauseWhenHidden = (element: Element, clock: PlaybackClock) => {
+  const onVisibilityChange = () => {
+    if (document.hidden) clock.pause("hidden");
+    else clock.resume("hidden");
+  };
+  onVisibilityChange();
+  document.addEventListener("visibilitychange", onVisibilityChange);
+
+  const intersectionObserver = new IntersectionObserver((entries) => {
+    if (entries[entries.length - 1].isIntersecting) clock.resume("offscreen");
+    else clock.pause("offscreen");
+  });
+  intersectionObserver.observe(element);
+
+  return () => {
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+    intersectionObserver.disconnect();
+    clock.resume("hidden");
+    clock.resume("offscreen");
+  };
+};
@@ -0,0 +1,101 @@
+import { StackFlags } from "./animation";
+import { BreathController, EyeBlinkController } from "./controller";
+
+const createTarget = () => ({
+  parameters: {
+    ids: ["ParamEyeLOpen", "ParamEyeROpen", "ParamBreath"],
+    values: new Float32Array(3),
+    defaultValues: [1, 1, 0.25],
+  },
+});
+
+const asCoreModel = (target: ReturnType<typeof createTarget>) =>
+  target as unknown as Live2DCubismCore.Model;
+
+const createStackFlags = (): StackFlags => [
+  new Uint8Array(3),
+  new Uint8Array(0),
+];
+
+describe("EyeBlinkController", () => {
+  const parameterIds = ["ParamEyeLOpen", "ParamEyeROpen"];
+
+  /** The state after each of the steps. */
+  const record = (controller: EyeBlinkController, steps: number) => {
+    const states: string[] = [];
+    for (let i = 0; i < steps; i++) {
+      controller.update(0.05, createStackFlags());
+      states.push(controller.state);
+    }
+    return states;
+  };
+
+  test("blinks on the same schedule for the same seed", () => {
+    const blinks = (seed: number) =>
+      record(
+        new EyeBlinkController(asCoreModel(createTarget()), {
+          parameterIds,
+          seed,
+        }),
+        600
+      );
+    const states = blinks(42);
+    expect(states).toContain("closed");
+    expect(blinks(42)).toEqual(states);
+    expect(blinks(7)).not.toEqual(states);
+  });
+
+  test("holds while something before it writes the eyes", () => {
+    const target = createTarget();
+    // Every interval comes out at the shortest, a second.
+    const controller = new EyeBlinkController(asCoreModel(target), {
+      parameterIds,
+      random: () => 0,
+    });
+    controller.update(0.95, createStackFlags());
+    expect(controller.state).toBe("interval");
+
+    for (let i = 0; i < 4; i++) {
+      // A motion keys the eyes half open.
+      target.parameters.values.set([0.5, 0.5], 0);
+      const stackFlags = createStackFlags();
+      stackFlags[0].set([1, 1], 0);
+      controller.update(0.5, stackFlags);
+      expect(controller.state).toBe("interval");
+      expect(target.parameters.values[0]).toBeCloseTo(0.5);
+    }
+
+    controller.update(0.1, createStackFlags());
+    expect(controller.state).toBe("closing");
+    // Half way through closing, from the default.
+    controller.update(0.05, createStackFlags());
+    expect(target.parameters.values[0]).toBeCloseTo(0.5);
+    expect(target.parameters.values[1]).toBeCloseTo(0.5);
+  });
+});
+
+describe("BreathController", () => {
+  test("adds the sine around its offset onto the value", () => {
+    const target = createTarget();
+    const controller = new BreathController(asCoreModel(target), {
+      parameters: [
+        { id: "ParamBreath", offset: 0.5, peak: 0.5, cycle: 4, weight: 0.5 },
+        { id: "ParamMissing", offset: 1, peak: 1, cycle: 1, weight: 1 },
+      ],
+      random: () => 0,
+    });
+
+    controller.update(0, createStackFlags());
+    expect(target.parameters.values[2]).toBeCloseTo(0.25 + 0.5 * 0.5);
+    // At the peak of the cycle.
+    controller.update(1, createStackFlags());
+    expect(target.parameters.values[2]).toBeCloseTo(0.25 + 1 * 0.5);
+
+    // Onto what a motion wrote, and back at the offset half a cycle later.
+    target.parameters.values[2] = 0;
+    const stackFlags = createStackFlags();
+    stackFlags[0][2] = 1;
+    controller.update(1, stackFlags);
+    expect(target.parameters.values[2]).toBeCloseTo(0.5 * 0.5);
+  });
+});
@@ -0,0 +1,217 @@
+import { StackFlags } from "./animation";
+
+/**
+ * Procedural controllers run after the animator (and expressions) have
+ * evaluated and before the core model is updated, on top of the same stack
+ * flags the animation layers write into.
+ */
+export type IModelController = {
+  update(deltaTime: number, stackFlags: StackFlags): void;
+};
+
+/** mulberry32: small, fast and good enough to make blinks reproducible. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const resolveRandom = ({
+  seed,
+  random,
+}: {
+  seed?: number;
+  random?: () => number;
+}) => random || (seed !== undefined ? createRandom(seed) : Math.random);
+
+/** Resets a parameter to its default the first time it is written in a frame. */
+export const prepareParameter = (
+  target: Live2DCubismCore.Model,
+  stackFlags: StackFlags,
+  parametersId: number
+) => {
+  if (stackFlags[0][parametersId]) return;
+  target.parameters.values[parametersId] =
+    target.parameters.defaultValues[parametersId];
+  stackFlags[0][parametersId] = 1;
+};
+
+type EyeBlinkState = "interval" | "closing" | "closed" | "opening";
+
+export type EyeBlinkOptions = {
+  /** Parameters to close, usually the model3.json EyeBlink group. */
+  parameterIds: string[];
+  /** Mean seconds between blinks. */
+  interval: number;
+  closingDuration: number;
+  closedDuration: number;
+  openingDuration: number;
+  seed?: number;
+  random?: () => number;
+};
+
+/**
+ * Blinks at random intervals by multiplying the eye parameters. It holds
+ * still in frames where something before it, usually a motion with its own
+ * blinks, has written them, so those are not blinked over a second time.
+ */
+export class EyeBlinkController {
+  private _target: Live2DCubismCore.Model;
+  private _parametersIds: number[];
+  private _options: Omit<EyeBlinkOptions, "parameterIds" | "seed" | "random">;
+  private _random: () => number;
+  private _state: EyeBlinkState = "interval";
+  private _stateTime = 0;
+  private _nextBlinkTime: number;
+
+  get state() {
+    return this._state;
+  }
+
+  constructor(
+    target: EyeBlinkController["_target"],
+    {
+      parameterIds,
+      interval = 4,
+      closingDuration = 0.1,
+      closedDuration = 0.05,
+      openingDuration = 0.15,
+      seed,
+      random,
+    }: Pick<EyeBlinkOptions, "parameterIds"> & Partial<EyeBlinkOptions>
+  ) {
+    this._target = target;
+    this._parametersIds = parameterIds
+      .map((id) => target.parameters.ids.indexOf(id))
+      .filter((i) => i !== -1);
+    this._options = {
+      interval,
+      closingDuration,
+      closedDuration,
+      openingDuration,
+    };
+    this._random = resolveRandom({ seed, random });
+    this._nextBlinkTime = this._pickInterval();
+  }
+
+  public update(deltaTime: number, stackFlags: StackFlags) {
+    if (
+      this._parametersIds.some((parametersId) => stackFlags[0][parametersId])
+    ) {
+      return;
+    }
+    this._stateTime += Math.max(deltaTime, 0);
+
+    const { closingDuration, closedDuration, openingDuration } = this._options;
+    if (this._state === "interval" && this._stateTime >= this._nextBlinkTime) {
+      this._setState("closing");
+    }
+    if (this._state === "closing" && this._stateTime >= closingDuration) {
+      this._setState("closed");
+    }
+    if (this._state === "closed" && this._stateTime >= closedDuration) {
+      this._setState("opening");
+    }
+    if (this._state === "opening" && this._stateTime >= openingDuration) {
+      this._setState("interval");
+      this._nextBlinkTime = this._pickInterval();
+    }
+
+    let openness = 1;
+    if (this._state === "closing") {
+      openness = 1 - this._stateTime / closingDuration;
+    } else if (this._state === "closed") {
+      openness = 0;
+    } else if (this._state === "opening") {
+      openness = this._stateTime / openingDuration;
+    }
+
+    this._parametersIds.forEach((parametersId) => {
+      prepareParameter(this._target, stackFlags, parametersId);
+      this._target.parameters.values[parametersId] *= openness;
+    });
+  }
+
+  private _setState(state: EyeBlinkState) {
+    this._state = state;
+    this._stateTime = 0;
+  }
+
+  /**
+   * The official framework's random * (2 * interval - 1) seconds, raised to
+   * a second where it comes out shorter.
+   */
+  private _pickInterval() {
+    const { interval } = this._options;
+    return Math.max(this._random() * (interval * 2 - 1), 1);
+  }
+}
+
+export type BreathParameter = {
+  id: string;
+  offset: number;
+  peak: number;
+  /** Seconds per cycle. */
+  cycle: number;
+  weight: number;
+};
+
+/** Defaults of the official framework's CubismBreath. */
+export const defaultBreathParameters: BreathParameter[] = [
+  { id: "ParamAngleX", offset: 0, peak: 15, cycle: 6.5345, weight: 0.5 },
+  { id: "ParamAngleY", offset: 0, peak: 8, cycle: 3.5345, weight: 0.5 },
+  { id: "ParamAngleZ", offset: 0, peak: 10, cycle: 5.5345, weight: 0.5 },
+  { id: "ParamBodyAngleX", offset: 0, peak: 4, cycle: 15.5345, weight: 0.5 },
+  { id: "ParamBreath", offset: 0.5, peak: 0.5, cycle: 3.2345, weight: 0.5 },
+];
+
+/** Adds a sine wave to each parameter, starting at a random phase. */
+export class BreathController {
+  private _target: Live2DCubismCore.Model;
+  private _parameters: (BreathParameter & {
+    parametersId: number;
+    phase: number;
+  })[];
+  private _time = 0;
+
+  constructor(
+    target: BreathController["_target"],
+    {
+      parameters = defaultBreathParameters,
+      seed,
+      random,
+    }: {
+      parameters?: BreathParameter[];
+      seed?: number;
+      random?: () => number;
+    } = {}
+  ) {
+    this._target = target;
+    const randomize = resolveRandom({ seed, random });
+    this._parameters = parameters
+      .map((parameter) => ({
+        ...parameter,
+        parametersId: target.parameters.ids.indexOf(parameter.id),
+        phase: randomize() * Math.PI * 2,
+      }))
+      .filter(({ parametersId }) => parametersId !== -1);
+  }
+
+  public update(deltaTime: number, stackFlags: StackFlags) {
+    this._time += Math.max(deltaTime, 0);
+
+    this._parameters.forEach(
+      ({ parametersId, offset, peak, cycle, weight, phase }) => {
+        prepareParameter(this._target, stackFlags, parametersId);
+        const value =
+          offset + peak * Math.sin((this._time * Math.PI * 2) / cycle + phase);
+        this._target.parameters.values[parametersId] += value * weight;
+      }
+    );
+  }
+}
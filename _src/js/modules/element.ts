@@ -0,0 +1,162 @@
+import { LayoutFit } from "./layout";
+import { MotionPlayOptions } from "./motion";
+import { createLive2D, Live2DInstance } from "./setup";
+
+const fits: LayoutFit[] = ["contain", "cover", "pixelsPerUnit"];
+
+/**
+ * `<live2d-model src="model.model3.json" motion="idle" expression="smile"
+ * fit="contain">` loads the model into its own box and keeps it in sync with
+ * the attributes:
+ *
+ * - src: the model3.json, reloads the model when changed
+ * - motion: the idle motion
+ * - expression: the expression, cleared when removed
+ * - fit: the layout fit mode
+ *
+ * It dispatches `progress` while loading, `load`, `error`, `hit`,
+ * `motionend` and `userdata` events, with the payload of the model event as
+ * `detail`, and destroys the model when it is removed from the page.
+ */
+export class Live2DModelElement extends HTMLElement {
+  static get observedAttributes() {
+    return ["src", "motion", "expression", "fit"];
+  }
+
+  private _container: HTMLDivElement;
+  private _instance: Live2DInstance | null = null;
+  private _loadCount = 0;
+
+  get model() {
+    return this._instance ? this._instance.model : null;
+  }
+
+  constructor() {
+    super();
+
+    const shadowRoot = this.attachShadow({ mode: "open" });
+    const style = document.createElement("style");
+    style.textContent = `
+      :host { display: block; position: relative; width: 300px; height: 300px; }
+      div { width: 100%; height: 100%; }
+      canvas { display: block; }
+    `;
+    this._container = document.createElement("div");
+    shadowRoot.append(style, this._container);
+  }
+
+  public connectedCallback() {
+    if (!this._instance) this._load();
+  }
+
+  public disconnectedCallback() {
+    this._unload();
+  }
+
+  public attributeChangedCallback(
+    name: string,
+    oldValue: string | null,
+    newValue: string | null
+  ) {
+    if (oldValue === newValue || !this.isConnected) return;
+    if (name === "src") {
+      this._load();
+      return;
+    }
+    if (this._instance) this._applyAttributes();
+  }
+
+  /** Plays a motion; resolves when it has played through. */
+  public play(motion: string, options?: MotionPlayOptions) {
+    if (!this._instance) {
+      return Promise.reject(new Error("live2d-model is not loaded"));
+    }
+    return this._instance.model.playAnimation(motion, options);
+  }
+
+  public stop() {
+    if (this._instance) this._instance.model.cancelAnimation();
+  }
+
+  private async _load() {
+    this._unload();
+    const src = this.getAttribute("src");
+    if (!src) return;
+
+    const loadCount = ++this._loadCount;
+    try {
+      const instance = await createLive2D(
+        this._container,
+        { model: src, layout: { fit: this._getFit() } },
+        {
+          onProgress: (progress) => {
+            if (loadCount === this._loadCount) {
+              this._dispatch("progress", progress);
+            }
+          },
+        }
+      );
+      // The element was removed or pointed elsewhere while loading.
+      if (loadCount !== this._loadCount) {
+        instance.destroy();
+        return;
+      }
+
+      this._instance = instance;
+      const { model } = instance;
+      model.on("hit", (area) => this._dispatch("hit", area));
+      model.on("motionend", (payload) => this._dispatch("motionend", payload));
+      model.on("userdata", (payload) => this._dispatch("userdata", payload));
+      this._applyAttributes();
+      this._dispatch("load", null);
+    } catch (e) {
+      if (loadCount !== this._loadCount) return;
+      this._dispatch("error", e);
+    }
+  }
+
+  private _unload() {
+    this._loadCount++;
+    if (!this._instance) return;
+    this._instance.destroy();
+    this._instance = null;
+  }
+
+  private _applyAttributes() {
+    if (!this._instance) return;
+    const { model, setLayout } = this._instance;
+
+    const motion = this.getAttribute("motion");
+    if (
+      motion &&
+      model.hasAnimation(motion) &&
+      motion !== model.idleAnimation
+    ) {
+      model.setIdleAnimation(motion).catch((e) => this._dispatch("error", e));
+    }
+
+    const expression = this.getAttribute("expression");
+    if (!expression) {
+      model.clearExpression();
+    } else if (model.expressions[expression]) {
+      model.setExpression(expression);
+    }
+
+    setLayout({ fit: this._getFit() });
+  }
+
+  private _getFit() {
+    const fit = this.getAttribute("fit");
+    return fits.find((value) => value === fit);
+  }
+
+  private _dispatch(type: string, detail: unknown) {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+}
+
+export const defineLive2DModelElement = (tagName = "live2d-model") => {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, Live2DModelElement);
+  }
+};
@@ -0,0 +1,159 @@
+import {
+  builtinAnimationBlenders,
+  IAnimationBlender,
+  StackFlags,
+} from "./animation";
+
+export type Exp3Json = {
+  Type: string;
+  FadeInTime?: number;
+  FadeOutTime?: number;
+  Parameters: {
+    Id: string;
+    Value: number;
+    Blend?: "Add" | "Multiply" | "Overwrite";
+  }[];
+};
+
+const DEFAULT_FADE_TIME = 1;
+
+const expressionBlenders: Record<
+  NonNullable<Exp3Json["Parameters"][number]["Blend"]>,
+  IAnimationBlender
+> = {
+  Add: builtinAnimationBlenders.add,
+  Multiply: builtinAnimationBlenders.multiply,
+  Overwrite: builtinAnimationBlenders.override,
+};
+
+const easeSine = (t: number) => 0.5 - 0.5 * Math.cos(Math.min(t, 1) * Math.PI);
+
+export class Expression {
+  public fadeInTime: number;
+  public fadeOutTime: number;
+  public parameters: {
+    targetId: string;
+    value: number;
+    blend: IAnimationBlender;
+  }[];
+
+  constructor(exp3Json: Exp3Json) {
+    this.fadeInTime = exp3Json.FadeInTime ?? DEFAULT_FADE_TIME;
+    this.fadeOutTime = exp3Json.FadeOutTime ?? DEFAULT_FADE_TIME;
+    this.parameters = exp3Json.Parameters.map((parameter) => ({
+      targetId: parameter.Id,
+      value: parameter.Value,
+      blend: expressionBlenders[parameter.Blend || "Add"],
+    }));
+  }
+
+  public evaluate(
+    weight: number,
+    target: Live2DCubismCore.Model,
+    stackFlags: StackFlags
+  ) {
+    if (weight <= 0) return;
+
+    this.parameters.forEach((parameter) => {
+      const parametersId = target.parameters.ids.indexOf(parameter.targetId);
+      if (parametersId === -1) return;
+
+      if (!stackFlags[0][parametersId]) {
+        target.parameters.values[parametersId] =
+          target.parameters.defaultValues[parametersId];
+        stackFlags[0][parametersId] = 1;
+      }
+
+      target.parameters.values[parametersId] = parameter.blend(
+        target.parameters.values[parametersId],
+        parameter.value,
+        0,
+        weight
+      );
+    });
+  }
+}
+
+type ExpressionEntry = {
+  name: string;
+  expression: Expression;
+  time: number;
+  fadeInDuration: number;
+  fadeOutDuration: number;
+  fadeOutTime: number | null;
+};
+
+/**
+ * Layers expressions on top of whatever the animator evaluated. The newest
+ * expression fades in while the ones it replaces fade out underneath it.
+ */
+export class ExpressionManager {
+  private _target: Live2DCubismCore.Model;
+  private _expressions: Record<string, Expression> = {};
+  private _entries: ExpressionEntry[] = [];
+
+  get expressions() {
+    return this._expressions;
+  }
+
+  get currentExpression() {
+    const entry = this._entries[this._entries.length - 1];
+    return entry && entry.fadeOutTime === null ? entry.name : null;
+  }
+
+  constructor(target: ExpressionManager["_target"]) {
+    this._target = target;
+  }
+
+  public add(name: string, exp3Json: Exp3Json) {
+    this._expressions[name] = new Expression(exp3Json);
+  }
+
+  public set(name: string, fadeDuration?: number) {
+    const expression = this._expressions[name];
+    if (!expression) throw new Error(`unknown expression: ${name}`);
+    if (this.currentExpression === name) return;
+
+    this.clear(fadeDuration);
+    this._entries.push({
+      name,
+      expression,
+      time: 0,
+      fadeInDuration: fadeDuration ?? expression.fadeInTime,
+      fadeOutDuration: expression.fadeOutTime,
+      fadeOutTime: null,
+    });
+  }
+
+  public clear(fadeDuration?: number) {
+    this._entries.forEach((entry) => {
+      if (entry.fadeOutTime !== null) return;
+      entry.fadeOutTime = entry.time;
+      if (fadeDuration !== undefined) entry.fadeOutDuration = fadeDuration;
+    });
+  }
+
+  public updateAndEvaluate(deltaTime: number, stackFlags: StackFlags) {
+    this._entries.forEach((entry) => (entry.time += deltaTime));
+    this._entries = this._entries.filter(
+      (entry) =>
+        entry.fadeOutTime === null ||
+        entry.time - entry.fadeOutTime < entry.fadeOutDuration
+    );
+
+    this._entries.forEach((entry) => {
+      const fadeIn =
+        entry.fadeInDuration > 0
+          ? easeSine(entry.time / entry.fadeInDuration)
+          : 1;
+      const fadeOut =
+        entry.fadeOutTime === null
+          ? 1
+          : entry.fadeOutDuration > 0
+          ? 1 -
+            easeSine((entry.time - entry.fadeOutTime) / entry.fadeOutDuration)
+          : 0;
+      entry.expression.evaluate(fadeIn * fadeOut, this._target, stackFlags);
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import { StackFlags } from "./animation";
+import { IModelController, prepareParameter } from "./controller";
+
+/**
+ * How far a parameter turns for a gaze point in [-1, 1] x [-1, 1], right and
+ * up being positive: `point.x * x + point.y * y + point.x * point.y * xy`.
+ */
+export type GazeParameter = {
+  id: string;
+  x?: number;
+  y?: number;
+  xy?: number;
+};
+
+/** Same ranges as the official samples' drag handling. */
+export const defaultGazeParameters: GazeParameter[] = [
+  { id: "ParamAngleX", x: 30 },
+  { id: "ParamAngleY", y: 30 },
+  { id: "ParamAngleZ", xy: -30 },
+  { id: "ParamBodyAngleX", x: 10 },
+  { id: "ParamEyeBallX", x: 1 },
+  { id: "ParamEyeBallY", y: 1 },
+];
+
+/**
+ * Turns the head, eyes and body towards a point. The offsets are added onto
+ * whatever the motion evaluated, and ease towards the point so the model
+ * does not snap when the pointer jumps.
+ */
+export class GazeController implements IModelController {
+  private _target: Live2DCubismCore.Model;
+  private _parameters: (Required<GazeParameter> & { parametersId: number })[];
+  private _smoothing: number;
+  private _goal = { x: 0, y: 0 };
+  private _point = { x: 0, y: 0 };
+
+  /** Where the model is looking after the last update. */
+  get point() {
+    return { ...this._point };
+  }
+
+  constructor(
+    target: GazeController["_target"],
+    {
+      parameters = defaultGazeParameters,
+      smoothing = 0.15,
+    }: {
+      parameters?: GazeParameter[];
+      /** Seconds to cover about two thirds of the way to the point. */
+      smoothing?: number;
+    } = {}
+  ) {
+    this._target = target;
+    this._smoothing = smoothing;
+    this._parameters = parameters
+      .map(({ id, x = 0, y = 0, xy = 0 }) => ({
+        id,
+        x,
+        y,
+        xy,
+        parametersId: target.parameters.ids.indexOf(id),
+      }))
+      .filter(({ parametersId }) => parametersId !== -1);
+  }
+
+  /** Looks at a point, clamped to [-1, 1] on each axis. */
+  public lookAt(x: number, y: number) {
+    this._goal.x = Math.min(Math.max(x, -1), 1);
+    this._goal.y = Math.min(Math.max(y, -1), 1);
+  }
+
+  /** Eases back to looking straight ahead. */
+  public reset() {
+    this.lookAt(0, 0);
+  }
+
+  public update(deltaTime: number, stackFlags: StackFlags) {
+    const rate =
+      this._smoothing > 0
+        ? 1 - Math.exp(-Math.max(deltaTime, 0) / this._smoothing)
+        : 1;
+    this._point.x += (this._goal.x - this._point.x) * rate;
+    this._point.y += (this._goal.y - this._point.y) * rate;
+
+    const { x, y } = this._point;
+    this._parameters.forEach((parameter) => {
+      prepareParameter(this._target, stackFlags, parameter.parametersId);
+      this._target.parameters.values[parameter.parametersId] +=
+        x * parameter.x + y * parameter.y + x * y * parameter.xy;
+    });
+  }
+}
+
+/**
+ * Points the controller at the mouse or touch point, relative to the centre
+ * of the element. With `page`, the pointer is followed anywhere on the page
+ * and points outside the element are clamped to its edges. Returns a
+ * function that removes the listeners again.
+ */
+export const trackPointer = (
+  element: Element,
+  controller: GazeController,
+  { page = false }: { page?: boolean } = {}
+) => {
+  const eventTarget: Window | Element = page ? window : element;
+
+  const onMove = (e: Event) => {
+    const { clientX, clientY } = e as PointerEvent;
+    const rect = element.getBoundingClientRect();
+    if (!rect.width || !rect.height) return;
+    controller.lookAt(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      1 - ((clientY - rect.top) / rect.height) * 2
+    );
+  };
+  const onLeave = () => controller.reset();
+  // A lifted finger leaves no pointer behind, unlike a mouse.
+  const onUp = (e: Event) => {
+    if ((e as PointerEvent).pointerType !== "mouse") onLeave();
+  };
+  const leaveTarget = page ? document.documentElement : element;
+
+  eventTarget.addEventListener("pointermove", onMove);
+  eventTarget.addEventListener("pointerdown", onMove);
+  eventTarget.addEventListener("pointerup", onUp);
+  eventTarget.addEventListener("pointercancel", onLeave);
+  leaveTarget.addEventListener("pointerleave", onLeave);
+
+  return () => {
+    eventTarget.removeEventListener("pointermove", onMove);
+    eventTarget.removeEventListener("pointerdown", onMove);
+    eventTarget.removeEventListener("pointerup", onUp);
+    eventTarget.removeEventListener("pointercancel", onLeave);
+    leaveTarget.removeEventListener("pointerleave", onLeave);
+  };
+};
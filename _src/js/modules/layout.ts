@@ -0,0 +1,66 @@
+import * as PIXI from "pixi.js";
+
+/**
+ * contain: the whole model canvas fits into the view.
+ * cover: the model canvas fills the view, cropping what sticks out.
+ * pixelsPerUnit: a fixed size, `pixelsPerUnit` CSS pixels per model unit.
+ */
+export type LayoutFit = "contain" | "cover" | "pixelsPerUnit";
+
+export type LayoutOptions = {
+  fit?: LayoutFit;
+  /** Used with the pixelsPerUnit fit, defaults to the model's own. */
+  pixelsPerUnit?: number;
+  /**
+   * Point of the model canvas pinned to the same point of the view, from
+   * { x: 0, y: 0 } (top left) to { x: 1, y: 1 } (bottom right).
+   */
+  anchor?: { x: number; y: number };
+  /** CSS pixels added after anchoring. */
+  offset?: { x: number; y: number };
+};
+
+/**
+ * Places a model in a view of the given CSS pixel size according to the
+ * CanvasInfo of its moc, so the model keeps its aspect ratio whatever the
+ * shape of the view.
+ */
+export const layoutModel = (
+  model: PIXI.Container & { coreModel: Live2DCubismCore.Model },
+  viewWidth: number,
+  viewHeight: number,
+  {
+    fit = "contain",
+    pixelsPerUnit,
+    anchor = { x: 0.5, y: 0.5 },
+    offset = { x: 0, y: 0 },
+  }: LayoutOptions = {}
+) => {
+  const {
+    CanvasWidth,
+    CanvasHeight,
+    CanvasOriginX,
+    CanvasOriginY,
+    PixelsPerUnit,
+  } = model.coreModel.canvasinfo;
+  const canvasWidth = CanvasWidth / PixelsPerUnit;
+  const canvasHeight = CanvasHeight / PixelsPerUnit;
+
+  let scale: number;
+  if (fit === "pixelsPerUnit") {
+    scale = pixelsPerUnit ?? PixelsPerUnit;
+  } else {
+    const fitScale = fit === "cover" ? Math.max : Math.min;
+    scale = fitScale(viewWidth / canvasWidth, viewHeight / canvasHeight);
+  }
+
+  // The origin is given in canvas pixels from the top left, and meshes are
+  // flipped so that model space grows downwards like the view.
+  const left = -CanvasOriginX / PixelsPerUnit;
+  const top = -CanvasOriginY / PixelsPerUnit;
+  model.scale.set(scale, scale);
+  model.position.set(
+    anchor.x * viewWidth + offset.x - (left + anchor.x * canvasWidth) * scale,
+    anchor.y * viewHeight + offset.y - (top + anchor.y * canvasHeight) * scale
+  );
+};
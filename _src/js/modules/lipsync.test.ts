@@ -0,0 +1,122 @@
+import { StackFlags } from "./animation";
+import { LipSyncController, PcmBuffer, PcmLipSyncSource } from "./lipsync";
+
+const SAMPLE_RATE = 1000;
+
+/**
+ * Half a second of silence, then a 50 Hz sine at full scale on the left and
+ * at half scale on the right, which mix down to 0.75.
+ */
+const createBuffer = (): PcmBuffer => {
+  const length = SAMPLE_RATE;
+  const channels = [1, 0.5].map((amplitude) =>
+    Float32Array.from({ length }, (_value, i) =>
+      i < length / 2
+        ? 0
+        : amplitude * Math.sin((2 * Math.PI * 50 * i) / SAMPLE_RATE)
+    )
+  );
+  return {
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: channels.length,
+    length,
+    getChannelData: (channel) => channels[channel],
+  };
+};
+
+/** RMS of the mixed sine; the window holds whole periods of it. */
+const SINE_VOLUME = 0.75 / Math.SQRT2;
+
+const createTarget = () => ({
+  parameters: {
+    ids: ["ParamMouthOpenY", "ParamMouthForm"],
+    values: new Float32Array(2),
+    defaultValues: [0, 0.1],
+  },
+});
+
+const createStackFlags = (): StackFlags => [
+  new Uint8Array(2),
+  new Uint8Array(0),
+];
+
+describe("PcmLipSyncSource", () => {
+  test("reads the volume of the mixed channels around the playhead", () => {
+    const source = new PcmLipSyncSource(createBuffer(), {
+      windowSeconds: 0.04,
+    });
+    expect(source.duration).toBeCloseTo(1);
+
+    expect(source.getVolume(0.25)).toBeCloseTo(0);
+    expect(source.currentTime).toBeCloseTo(0.25);
+    expect(source.getVolume(0.5)).toBeCloseTo(SINE_VOLUME);
+    expect(source.currentTime).toBeCloseTo(0.75);
+    expect(source.ended).toBe(false);
+
+    expect(source.getVolume(0.5)).toBeCloseTo(SINE_VOLUME);
+    expect(source.ended).toBe(true);
+
+    source.currentTime = 0.5;
+    expect(source.getVolume(0)).toBeCloseTo(0);
+  });
+
+  test("follows an external clock instead of the update delta", () => {
+    let time = 0.8;
+    const source = new PcmLipSyncSource(createBuffer(), {
+      windowSeconds: 0.04,
+      clock: () => time,
+    });
+    expect(source.getVolume(0)).toBeCloseTo(SINE_VOLUME);
+    time = 0.2;
+    expect(source.getVolume(1)).toBeCloseTo(0);
+    expect(source.currentTime).toBeCloseTo(0.2);
+  });
+});
+
+describe("LipSyncController", () => {
+  const createController = (smoothing: number) => {
+    const target = createTarget();
+    const controller = new LipSyncController(
+      target as unknown as Live2DCubismCore.Model,
+      {
+        parameterIds: ["ParamMouthOpenY", "ParamMouthForm", "ParamMissing"],
+        gain: 1,
+        smoothing,
+        weight: 0.5,
+      }
+    );
+    controller.source = new PcmLipSyncSource(createBuffer(), {
+      windowSeconds: 0.04,
+    });
+    return { target, controller };
+  };
+
+  test("adds the volume onto what is animated, or else the default", () => {
+    const { target, controller } = createController(0);
+    controller.update(0.25, createStackFlags());
+    expect(controller.value).toBeCloseTo(0);
+    expect(target.parameters.values[1]).toBeCloseTo(0.1);
+
+    const stackFlags = createStackFlags();
+    // A motion keys the mouth.
+    target.parameters.values[0] = 0.2;
+    stackFlags[0][0] = 1;
+    controller.update(0.5, stackFlags);
+    expect(controller.value).toBeCloseTo(SINE_VOLUME);
+    expect(target.parameters.values[0]).toBeCloseTo(0.2 + SINE_VOLUME * 0.5);
+    expect(target.parameters.values[1]).toBeCloseTo(0.1 + SINE_VOLUME * 0.5);
+  });
+
+  test("follows the volume smoothly", () => {
+    const { controller } = createController(0.1);
+    controller.source?.getVolume(0.75);
+    controller.update(0.1, createStackFlags());
+    expect(controller.value).toBeCloseTo(SINE_VOLUME * (1 - Math.exp(-1)));
+
+    controller.source = null;
+    controller.update(0.1, createStackFlags());
+    expect(controller.value).toBeCloseTo(
+      SINE_VOLUME * (1 - Math.exp(-1)) * Math.exp(-1)
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { StackFlags } from "./animation";
+import { IModelController, prepareParameter } from "./controller";
+
+/**
+ * Anything that can report how loud the voice is right now, as RMS of the
+ * samples around the playhead (0 = silence, 1 = full scale).
+ */
+export type ILipSyncSource = {
+  getVolume(deltaTime: number): number;
+};
+
+const rms = (samples: ArrayLike<number>, from = 0, to = samples.length) => {
+  if (to <= from) return 0;
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (to - from));
+};
+
+/** The parts of an AudioBuffer the PCM source needs. */
+export type PcmBuffer = {
+  sampleRate: number;
+  numberOfChannels: number;
+  length: number;
+  getChannelData(channel: number): Float32Array;
+};
+
+/**
+ * Reads volume straight from decoded samples, so it works without an
+ * AudioContext (e.g. offline in tests). The playhead follows the update
+ * delta, or an external clock such as an audio element's currentTime.
+ */
+export class PcmLipSyncSource implements ILipSyncSource {
+  private _samples: Float32Array;
+  private _sampleRate: number;
+  private _windowSize: number;
+  private _clock: (() => number) | null;
+  private _time = 0;
+
+  get duration() {
+    return this._samples.length / this._sampleRate;
+  }
+
+  get currentTime() {
+    return this._clock ? this._clock() : this._time;
+  }
+
+  set currentTime(value: number) {
+    this._time = value;
+  }
+
+  get ended() {
+    return this.currentTime >= this.duration;
+  }
+
+  constructor(
+    buffer: PcmBuffer,
+    {
+      windowSeconds = 0.05,
+      clock = null,
+    }: { windowSeconds?: number; clock?: (() => number) | null } = {}
+  ) {
+    this._sampleRate = buffer.sampleRate;
+    this._samples = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < buffer.length; i++) {
+        this._samples[i] += channel[i] / buffer.numberOfChannels;
+      }
+    }
+    this._windowSize = Math.max(
+      Math.round(windowSeconds * buffer.sampleRate),
+      1
+    );
+    this._clock = clock;
+  }
+
+  public getVolume(deltaTime: number) {
+    if (!this._clock) this._time += Math.max(deltaTime, 0);
+
+    const end = Math.min(
+      Math.round(this.currentTime * this._sampleRate),
+      this._samples.length
+    );
+    return rms(this._samples, Math.max(end - this._windowSize, 0), end);
+  }
+}
+
+/** Taps a Web Audio node with an AnalyserNode; the node's output is unchanged. */
+export class AnalyserLipSyncSource implements ILipSyncSource {
+  private _analyser: AnalyserNode;
+  private _data: Float32Array;
+
+  get analyser() {
+    return this._analyser;
+  }
+
+  constructor(node: AudioNode, { fftSize = 1024 }: { fftSize?: number } = {}) {
+    this._analyser = node.context.createAnalyser();
+    this._analyser.fftSize = fftSize;
+    this._data = new Float32Array(this._analyser.fftSize);
+    node.connect(this._analyser);
+  }
+
+  public getVolume() {
+    this._analyser.getFloatTimeDomainData(this._data);
+    return rms(this._data);
+  }
+
+  public disconnect() {
+    this._analyser.disconnect();
+  }
+}
+
+class MediaElementLipSyncSource extends AnalyserLipSyncSource {
+  private _node: MediaElementAudioSourceNode;
+
+  constructor(node: MediaElementAudioSourceNode) {
+    super(node);
+    this._node = node;
+  }
+
+  /** Disconnects the element too, which leaves it silent in this context. */
+  public disconnect() {
+    super.disconnect();
+    this._node.disconnect();
+  }
+}
+
+/**
+ * Routes an audio element through Web Audio so it can be analysed. An element
+ * can only be captured once per context, so keep the returned source, and
+ * only disconnect it once the element is done with.
+ */
+export const createMediaElementLipSyncSource = (
+  audio: HTMLMediaElement,
+  context: AudioContext
+): AnalyserLipSyncSource => {
+  const node = context.createMediaElementSource(audio);
+  node.connect(context.destination);
+  return new MediaElementLipSyncSource(node);
+};
+
+export type LipSyncOptions = {
+  /** Parameters to open, usually the model3.json LipSync group. */
+  parameterIds: string[];
+  /** Volume to mouth-openness factor. */
+  gain: number;
+  /** Seconds for the mouth to follow about two thirds of a change. */
+  smoothing: number;
+  weight: number;
+};
+
+/**
+ * Opens the mouth by the smoothed volume of the current source. Mouth
+ * parameters are added onto, like the official framework, so motions that
+ * key the mouth keep working.
+ */
+export class LipSyncController implements IModelController {
+  private _target: Live2DCubismCore.Model;
+  private _parametersIds: number[];
+  private _options: Omit<LipSyncOptions, "parameterIds">;
+  private _source: ILipSyncSource | null = null;
+  private _value = 0;
+
+  get source() {
+    return this._source;
+  }
+
+  set source(value: ILipSyncSource | null) {
+    this._source = value;
+  }
+
+  /** Smoothed mouth openness applied on the last update. */
+  get value() {
+    return this._value;
+  }
+
+  constructor(
+    target: LipSyncController["_target"],
+    {
+      parameterIds,
+      gain = 5,
+      smoothing = 0.05,
+      weight = 0.8,
+    }: Pick<LipSyncOptions, "parameterIds"> & Partial<LipSyncOptions>
+  ) {
+    this._target = target;
+    this._parametersIds = parameterIds
+      .map((id) => target.parameters.ids.indexOf(id))
+      .filter((i) => i !== -1);
+    this._options = { gain, smoothing, weight };
+  }
+
+  public update(deltaTime: number, stackFlags: StackFlags) {
+    const { gain, smoothing, weight } = this._options;
+    const volume = this._source ? this._source.getVolume(deltaTime) : 0;
+    const goal = Math.min(Math.max(volume * gain, 0), 1);
+    const rate = smoothing > 0 ? 1 - Math.exp(-deltaTime / smoothing) : 1;
+    this._value += (goal - this._value) * rate;
+
+    this._parametersIds.forEach((parametersId) => {
+      prepareParameter(this._target, stackFlags, parametersId);
+      this._target.parameters.values[parametersId] += this._value * weight;
+    });
+  }
+}
@@ -0,0 +1,243 @@
+import * as PIXI from "pixi.js";
+
+export class LoadError extends Error {
+  constructor(public path: string, public reason: string) {
+    super(`failed to load ${path}: ${reason}`);
+    this.name = "LoadError";
+  }
+}
+
+/**
+ * Files loaded so far out of the files expected or requested so far. The
+ * total is null while the loader waits for the file list, see
+ * ResourceLoader.expect.
+ */
+export type LoadProgress = {
+  loaded: number;
+  total: number | null;
+  path: string;
+};
+
+type CacheEntry<T> = { promise: Promise<T>; refs: number };
+
+/**
+ * Shared by every instance on the page, by absolute URL, so that the same
+ * model shown twice is only downloaded once.
+ */
+const jsonCache = new Map<string, CacheEntry<unknown>>();
+const bufferCache = new Map<string, CacheEntry<ArrayBuffer>>();
+const textureCache = new Map<string, CacheEntry<PIXI.Texture>>();
+
+/** Status codes that may go away when asked again. */
+const isRetriableStatus = (status: number) =>
+  status >= 500 || status === 408 || status === 429;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const decodeImage = (blob: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("not an image"));
+    };
+    image.src = url;
+  });
+
+/**
+ * Loads the files of one model instance through the page-wide cache, retrying
+ * network errors and server errors with a growing delay. Everything it loaded
+ * is handed back with `release`; a texture is destroyed once no instance uses
+ * it anymore.
+ */
+export class ResourceLoader {
+  private _retries: number;
+  private _retryDelay: number;
+  private _releases: (() => void)[] = [];
+  private _released = false;
+  private _loaded = 0;
+  private _total = 0;
+  private _waitingForFiles: boolean;
+  /** Expected files, by URL, that have not been requested yet. */
+  private _expected = new Set<string>();
+  private _progressCallbacks: ((progress: LoadProgress) => void)[] = [];
+
+  constructor({
+    retries = 2,
+    retryDelay = 500,
+    waitForFiles = false,
+  }: {
+    /** Attempts after the first one. */
+    retries?: number;
+    /** Milliseconds before the first retry, doubling after each. */
+    retryDelay?: number;
+    /**
+     * Report no total until `expect` is called, for files such as a
+     * model3.json that have to load before the rest is known.
+     */
+    waitForFiles?: boolean;
+  } = {}) {
+    this._retries = retries;
+    this._retryDelay = retryDelay;
+    this._waitingForFiles = waitForFiles;
+  }
+
+  /**
+   * Counts files into the total before they are requested, so that the
+   * progress does not go back as they are.
+   */
+  public expect(paths: string[]) {
+    this._waitingForFiles = false;
+    paths.forEach((path) => {
+      const url = new URL(path, document.baseURI).href;
+      if (this._expected.has(url)) return;
+      this._expected.add(url);
+      this._total++;
+    });
+  }
+
+  /**
+   * Called whenever a file has loaded, including motions loaded later on.
+   * Returns a function that removes the callback again.
+   */
+  public onProgress(cb: (progress: LoadProgress) => void) {
+    this._progressCallbacks.push(cb);
+    return () => {
+      this._progressCallbacks = this._progressCallbacks.filter(
+        (callback) => callback !== cb
+      );
+    };
+  }
+
+  /** The JSON is trusted to be a T; check it where it matters. */
+  public loadJson<T = unknown>(path: string) {
+    return this._load(jsonCache, path, async (response) => {
+      try {
+        return await response.json();
+      } catch (e) {
+        throw new LoadError(path, "invalid JSON");
+      }
+    }) as Promise<T>;
+  }
+
+  public loadBuffer(path: string) {
+    return this._load(bufferCache, path, (response) => response.arrayBuffer());
+  }
+
+  public loadTexture(path: string) {
+    return this._load(
+      textureCache,
+      path,
+      async (response) => {
+        const blob = await response.blob();
+        try {
+          return PIXI.Texture.from(await decodeImage(blob));
+        } catch (e) {
+          throw new LoadError(path, "not an image");
+        }
+      },
+      (texture) => texture.destroy(true)
+    );
+  }
+
+  /** Hands back everything loaded so far; nothing can be loaded after. */
+  public release() {
+    this._released = true;
+    this._releases.forEach((release) => release());
+    this._releases = [];
+  }
+
+  private _load<T>(
+    cache: Map<string, CacheEntry<T>>,
+    path: string,
+    read: (response: Response) => Promise<T>,
+    destroy?: (value: T) => void
+  ) {
+    if (this._released) {
+      return Promise.reject(new LoadError(path, "the loader was released"));
+    }
+
+    const url = new URL(path, document.baseURI).href;
+    let entry = cache.get(url);
+    if (!entry) {
+      const promise = this._fetch(path, url, read);
+      const created: CacheEntry<T> = { promise, refs: 0 };
+      // A failed file is asked for again by the next one who needs it.
+      promise.catch(() => {
+        if (cache.get(url) === created) cache.delete(url);
+      });
+      cache.set(url, created);
+      entry = created;
+    }
+
+    const acquired = entry;
+    acquired.refs++;
+    this._releases.push(() => {
+      acquired.refs--;
+      if (acquired.refs > 0) return;
+      if (cache.get(url) === acquired) cache.delete(url);
+      if (destroy) acquired.promise.then(destroy, () => undefined);
+    });
+
+    if (!this._expected.delete(url)) this._total++;
+    return acquired.promise.then((value) => {
+      this._loaded++;
+      const progress = {
+        loaded: this._loaded,
+        total: this._waitingForFiles ? null : this._total,
+        path,
+      };
+      [...this._progressCallbacks].forEach((cb) => cb(progress));
+      return value;
+    });
+  }
+
+  private async _fetch<T>(
+    path: string,
+    url: string,
+    read: (response: Response) => Promise<T>
+  ) {
+    const networkError = (e: unknown) =>
+      new LoadError(
+        path,
+        `network error${e instanceof Error ? ` (${e.message})` : ""}`
+      );
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this._retries;
+      let response: Response;
+      try {
+        response = await fetch(url);
+      } catch (e) {
+        if (canRetry) {
+          await wait(this._retryDelay * 2 ** attempt);
+          continue;
+        }
+        throw networkError(e);
+      }
+
+      if (response.ok) {
+        try {
+          return await read(response);
+        } catch (e) {
+          throw e instanceof LoadError ? e : networkError(e);
+        }
+      }
+      if (canRetry && isRetriableStatus(response.status)) {
+        await wait(this._retryDelay * 2 ** attempt);
+        continue;
+      }
+      throw new LoadError(
+        path,
+        `HTTP ${response.status}${
+          response.statusText ? ` ${response.statusText}` : ""
+        }`
+      );
+    }
+  }
+}
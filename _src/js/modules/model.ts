@@ -4,30 +4,68 @@
  */
 import * as PIXI from "pixi.js";
 import * as animationFramework from "./animation";
+import * as clockFramework from "./clock";
+import * as controllerFramework from "./controller";
+import * as expressionFramework from "./expression";
+import * as lipSyncFramework from "./lipsync";
+import * as motionFramework from "./motion";
+import * as overrideFramework from "./override";
+import * as parserFramework from "./parser";
+import * as physicsFramework from "./physics";
+import * as poseFramework from "./pose";
+import { Model3Json, UserData3Json } from "./settings";
 
 export class ModelBuilder {
   private _moc: Live2DCubismCore.Moc;
   private _setTimeScale: number;
-  private _texture: PIXI.Texture;
-  private _animatorLayer: {
-    blender: animationFramework.IAnimationBlender;
-    weight: number;
-  };
+  private _textures: PIXI.Texture[];
+  private _physics3Json: physicsFramework.Physics3Json | null;
+  private _pose3Json: poseFramework.Pose3Json | null;
+  private _userData3Json: UserData3Json | null;
+  private _groups: NonNullable<Model3Json["Groups"]>;
+  private _hitAreas: NonNullable<Model3Json["HitAreas"]>;
+  private _animatorLayers: ({
+    name: string;
+  } & Partial<animationFramework.AnimationLayerOptions>)[];
 
   constructor({
     mocBuffer,
-    texture,
+    textures,
+    physics3Json,
+    pose3Json,
+    userData3Json,
+    groups = [],
+    hitAreas = [],
+    animatorLayers = [],
   }: {
     mocBuffer: ArrayBuffer;
-    texture: ModelBuilder["_texture"];
+    textures: ModelBuilder["_textures"];
+    physics3Json?: ModelBuilder["_physics3Json"];
+    pose3Json?: ModelBuilder["_pose3Json"];
+    userData3Json?: ModelBuilder["_userData3Json"];
+    /** Groups section of model3.json, e.g. the EyeBlink / LipSync groups. */
+    groups?: ModelBuilder["_groups"];
+    /** HitAreas section of model3.json. */
+    hitAreas?: ModelBuilder["_hitAreas"];
+    /** Extra layers evaluated on top of the base layer, in order. */
+    animatorLayers?: ModelBuilder["_animatorLayers"];
   }) {
     this._moc = Live2DCubismCore.Moc.fromArrayBuffer(mocBuffer);
     this._setTimeScale = 1;
-    this._texture = texture;
-    this._animatorLayer = {
-      blender: animationFramework.builtinAnimationBlenders.override,
-      weight: 1,
-    };
+    this._textures = textures;
+    this._physics3Json = physics3Json || null;
+    this._pose3Json = pose3Json || null;
+    this._userData3Json = userData3Json || null;
+    this._groups = groups;
+    this._hitAreas = hitAreas;
+    this._animatorLayers = [
+      {
+        name: animationFramework.DEFAULT_ANIMATION_LAYER,
+        blender: animationFramework.builtinAnimationBlenders.override,
+        weight: 1,
+      },
+      ...animatorLayers,
+    ];
   }
 
   public build() {
@@ -35,20 +73,153 @@ export class ModelBuilder {
     const animatorBuilder = new animationFramework.AnimatorBuilder({
       target: coreModel,
       timeScale: this._setTimeScale,
-      layer: this._animatorLayer,
+      layers: this._animatorLayers,
+      groups: Object.fromEntries(
+        this._groups.map(({ Name, Target, Ids }) => [
+          Name,
+          { target: Target, ids: Ids },
+        ])
+      ),
     });
     const animator = animatorBuilder.build();
-    return new Model(coreModel, this._texture, animator);
+    const physics = this._physics3Json
+      ? new physicsFramework.Physics(coreModel, this._physics3Json)
+      : null;
+    const pose = this._pose3Json
+      ? new poseFramework.Pose(coreModel, this._pose3Json)
+      : null;
+    return new Model(coreModel, this._textures, animator, {
+      physics,
+      pose,
+      hitAreas: this._hitAreas.map(({ Id, Name }) => ({ id: Id, name: Name })),
+      userData: (this._userData3Json?.UserData || []).map(
+        ({ Target, Id, Value }) => ({ target: Target, id: Id, value: Value })
+      ),
+    });
+  }
+}
+
+export type ModelEventMap = {
+  userdata: { motion: string; layer: string; time: number; value: string };
+  /** Name of a hit area that was tapped, once per area from the front. */
+  hit: string;
+  /** A played or queued motion has played through once. */
+  motionend: { motion: string; layer: string };
+  /** A motion added with addLazyAnimation has loaded and been parsed. */
+  motionload: { motion: string; diagnostics: parserFramework.Diagnostic[] };
+};
+
+export type ModelAnimationOptions = {
+  fadeInTime?: number;
+  fadeOutTime?: number;
+  sound?: string;
+  parseMode?: parserFramework.ParseMode;
+};
+
+type LazyAnimation = {
+  load: () => Promise<unknown>;
+  options: ModelAnimationOptions;
+  promise: Promise<void> | null;
+};
+
+const getBlendMode = (constantFlags: number) => {
+  if (Live2DCubismCore.Utils.hasBlendAdditiveBit(constantFlags)) {
+    return PIXI.BLEND_MODES.ADD;
+  }
+  if (Live2DCubismCore.Utils.hasBlendMultiplicativeBit(constantFlags)) {
+    return PIXI.BLEND_MODES.MULTIPLY;
+  }
+  return PIXI.BLEND_MODES.NORMAL;
+};
+
+/** Whether (x, y) lies in any triangle of a drawable's current mesh. */
+const containsPoint = (
+  vertexPositions: Float32Array,
+  indices: Uint16Array,
+  x: number,
+  y: number
+) => {
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const ax = vertexPositions[indices[i] * 2];
+    const ay = vertexPositions[indices[i] * 2 + 1];
+    const bx = vertexPositions[indices[i + 1] * 2];
+    const by = vertexPositions[indices[i + 1] * 2 + 1];
+    const cx = vertexPositions[indices[i + 2] * 2];
+    const cy = vertexPositions[indices[i + 2] * 2 + 1];
+    const d1 = (x - bx) * (ay - by) - (ax - bx) * (y - by);
+    const d2 = (x - cx) * (by - cy) - (bx - cx) * (y - cy);
+    const d3 = (x - ax) * (cy - ay) - (cx - ax) * (y - ay);
+    const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+    const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+    if (!(hasNegative && hasPositive)) return true;
   }
+  return false;
+};
+
+/** Typed overloads for the events a Model emits on top of PIXI's own. */
+export interface Model {
+  on<K extends keyof ModelEventMap>(
+    event: K,
+    fn: (payload: ModelEventMap[K]) => void,
+    context?: unknown
+  ): this;
+  on(
+    event: string | symbol,
+    fn: (...args: never[]) => void,
+    context?: unknown
+  ): this;
+  once<K extends keyof ModelEventMap>(
+    event: K,
+    fn: (payload: ModelEventMap[K]) => void,
+    context?: unknown
+  ): this;
+  once(
+    event: string | symbol,
+    fn: (...args: never[]) => void,
+    context?: unknown
+  ): this;
+  off<K extends keyof ModelEventMap>(
+    event: K,
+    fn?: (payload: ModelEventMap[K]) => void,
+    context?: unknown
+  ): this;
+  off(
+    event: string | symbol,
+    fn?: (...args: never[]) => void,
+    context?: unknown
+  ): this;
 }
 
 export class Model extends PIXI.Container {
   private _coreModel: Live2DCubismCore.Model;
-  private _texture: PIXI.Texture;
+  private _textures: PIXI.Texture[];
   private _animator: animationFramework.Animator;
+  private _physics: physicsFramework.Physics | null;
+  private _pose: poseFramework.Pose | null;
+  private _hitAreas: { id: string; name: string }[];
+  /** The userdata3.json entries, e.g. the Value an art mesh was tagged with. */
+  private _userData: { target: string; id: string; value: string }[];
   private _animations: Record<string, animationFramework.Animation>;
-  private _defaultAnimation: string | null = null;
-  private _currentAnimation: string | null = null;
+  private _lazyAnimations: Record<string, LazyAnimation> = {};
+  private _idleRequest: string | null = null;
+  private _expressionManager: expressionFramework.ExpressionManager;
+  private _controllers: controllerFramework.IModelController[] = [];
+  private _overrides: overrideFramework.ParameterOverrides;
+  private _clock = new clockFramework.PlaybackClock();
+  /** Set when something changes the pose while the clock is paused. */
+  private _needsEvaluate = false;
+  private _motionManagers: Record<string, motionFramework.MotionManager> = {};
+  private _sounds: Record<string, string> = {};
+  private _lipSync: lipSyncFramework.LipSyncController | null = null;
+  private _audioContext: AudioContext | null = null;
+  private _voiceSources = new WeakMap<
+    HTMLMediaElement,
+    lipSyncFramework.AnalyserLipSyncSource
+  >();
+  private _voice: HTMLMediaElement | null = null;
+  /** Whether playVoice created the element, and can let go of it. */
+  private _ownsVoice = false;
+  private _onVoiceEnded = () => this.stopVoice();
   private _meshes: PIXI.SimpleMesh[];
   private _maskSpriteContainer: MaskSpriteContainer;
 
@@ -56,20 +227,86 @@ export class Model extends PIXI.Container {
     return this._coreModel;
   }
 
-  get texture() {
-    return this._texture;
+  get textures() {
+    return this._textures;
   }
 
   get animator() {
     return this._animator;
   }
 
+  get physics() {
+    return this._physics;
+  }
+
+  get pose() {
+    return this._pose;
+  }
+
+  get hitAreas() {
+    return this._hitAreas;
+  }
+
+  get userData() {
+    return this._userData;
+  }
+
+  get controllers() {
+    return this._controllers;
+  }
+
+  get clock() {
+    return this._clock;
+  }
+
+  get paused() {
+    return this._clock.paused;
+  }
+
+  /** Playback speed of everything that moves, 1 being real time. */
+  get playbackRate() {
+    return this._clock.rate;
+  }
+
+  set playbackRate(value: number) {
+    this._clock.rate = value;
+  }
+
+  /** Seconds per step to update in, or null to update once per frame. */
+  get fixedTimestep() {
+    return this._clock.fixedTimestep;
+  }
+
+  set fixedTimestep(value: number | null) {
+    this._clock.fixedTimestep = value;
+  }
+
+  get lipSync() {
+    return this._lipSync;
+  }
+
+  get voice() {
+    return this._voice;
+  }
+
   get animations() {
     return this._animations;
   }
 
   get currentAnimation() {
-    return this._currentAnimation;
+    return this._getMotionManager().currentMotion;
+  }
+
+  get idleAnimation() {
+    return this._getMotionManager().idleMotion;
+  }
+
+  get expressions() {
+    return this._expressionManager.expressions;
+  }
+
+  get currentExpression() {
+    return this._expressionManager.currentExpression;
   }
 
   get meshes() {
@@ -82,19 +319,45 @@ export class Model extends PIXI.Container {
 
   constructor(
     coreModel: Model["_coreModel"],
-    texture: Model["_texture"],
-    animator: Model["_animator"]
+    textures: Model["_textures"],
+    animator: Model["_animator"],
+    {
+      physics = null,
+      pose = null,
+      hitAreas = [],
+      userData = [],
+    }: {
+      physics?: Model["_physics"];
+      pose?: Model["_pose"];
+      hitAreas?: Model["_hitAreas"];
+      userData?: Model["_userData"];
+    } = {}
   ) {
     super();
 
     this._coreModel = coreModel;
-    this._texture = texture;
+    this._textures = textures;
     this._animator = animator;
+    this._physics = physics;
+    this._pose = pose;
+    this._hitAreas = hitAreas;
+    this._userData = userData;
+    this._animator.onUserData(({ layer, animation, time, value }) => {
+      const motion = Object.keys(this._animations).find(
+        (key) => this._animations[key] === animation
+      );
+      if (!motion) return;
+      this._emit("userdata", { motion, layer, time, value });
+    });
     this._animations = {};
+    this._expressionManager = new expressionFramework.ExpressionManager(
+      coreModel
+    );
+    this._overrides = new overrideFramework.ParameterOverrides(coreModel);
     this._meshes = [];
     this._coreModel.drawables.ids.forEach((_id, idIndex) => {
       const mesh = new PIXI.SimpleMesh(
-        texture,
+        this.getTextureByDrawableIndex(idIndex),
         this._coreModel.drawables.vertexPositions[idIndex],
         this._coreModel.drawables.vertexUvs[idIndex].map((uv, uvIndex) => {
           const isEven = (uvIndex + 1) % 2 == 0;
@@ -106,6 +369,16 @@ export class Model extends PIXI.Container {
       mesh.name = this._coreModel.drawables.ids[idIndex];
       mesh.scale.y *= -1;
       mesh.zIndex = this._coreModel.drawables.renderOrders[idIndex];
+      mesh.blendMode = getBlendMode(
+        this._coreModel.drawables.constantFlags[idIndex]
+      );
+      // The vertical flip cancels out the y-down stage, so Cubism's
+      // counter-clockwise front faces stay front faces.
+      mesh.state.culling = !Live2DCubismCore.Utils.hasIsDoubleSidedBit(
+        this._coreModel.drawables.constantFlags[idIndex]
+      );
+      // The batch renderer ignores the mesh state, culling included.
+      mesh.material.batchable = !mesh.state.culling;
 
       this.addChild(mesh);
       this._meshes.push(mesh);
@@ -113,42 +386,372 @@ export class Model extends PIXI.Container {
     this.sortableChildren = true;
 
     this._maskSpriteContainer = new MaskSpriteContainer(this);
+
+    // Only taps on a hit area are claimed, the rest fall through the model.
+    this.interactive = this._hitAreas.length > 0;
+    this.hitArea = {
+      contains: (x: number, y: number) =>
+        this._hitAreas.some(({ id }) =>
+          this._containsLocalPoint(
+            this._coreModel.drawables.ids.indexOf(id),
+            x,
+            y
+          )
+        ),
+    };
+    this.on("pointertap", (e: PIXI.InteractionEvent) => {
+      const { x, y } = e.data.global;
+      this.hitTest(x, y).forEach((name) => this._emit("hit", name));
+    });
   }
 
-  public addAnimation(key: string, data: Record<string, unknown>) {
-    const animation = new animationFramework.Animation(data);
+  /**
+   * Fade times given here (e.g. from a model3.json motion entry) take
+   * precedence over the Meta.FadeInTime / FadeOutTime of the motion3.json.
+   * A sound is played as voice whenever the motion starts. Returns the
+   * diagnostics of parsing the motion3.json, and throws a ParseError when
+   * it is unusable (or has any problem, in strict mode).
+   */
+  public addAnimation(
+    key: string,
+    data: unknown,
+    { fadeInTime, fadeOutTime, sound, parseMode }: ModelAnimationOptions = {}
+  ) {
+    const { value: motion3Json, diagnostics } =
+      parserFramework.parseMotion3Json(data, { mode: parseMode });
+
+    if (sound) this._sounds[key] = sound;
+    else delete this._sounds[key];
+
+    const animation = new animationFramework.Animation(motion3Json);
+    if (fadeInTime !== undefined && fadeInTime >= 0) {
+      animation.fadeInTime = fadeInTime;
+    }
+    if (fadeOutTime !== undefined && fadeOutTime >= 0) {
+      animation.fadeOutTime = fadeOutTime;
+    }
     this._animations[key] = animation;
+    delete this._lazyAnimations[key];
+    return diagnostics;
+  }
+
+  /**
+   * Registers a motion that is only loaded the first time it is played, set
+   * as idle or loaded with loadAnimation. `load` resolves with the
+   * motion3.json, and is called again after a failure.
+   */
+  public addLazyAnimation(
+    key: string,
+    load: () => Promise<unknown>,
+    options: ModelAnimationOptions = {}
+  ) {
+    delete this._animations[key];
+    this._lazyAnimations[key] = { load, options, promise: null };
+  }
+
+  public hasAnimation(key: string) {
+    return !!this._animations[key] || !!this._lazyAnimations[key];
+  }
+
+  /** Resolves once the motion can be played, right away if it already can. */
+  public loadAnimation(key: string): Promise<void> {
+    if (this._animations[key]) return Promise.resolve();
+    const lazy = this._lazyAnimations[key];
+    if (!lazy) return Promise.reject(new Error(`unknown motion: ${key}`));
+
+    if (!lazy.promise) {
+      lazy.promise = lazy
+        .load()
+        .then((data) => {
+          // Replaced or loaded another way in the meantime.
+          if (this._lazyAnimations[key] !== lazy) {
+            return this.loadAnimation(key);
+          }
+          const diagnostics = this.addAnimation(key, data, lazy.options);
+          this._emit("motionload", { motion: key, diagnostics });
+        })
+        .catch((e) => {
+          lazy.promise = null;
+          throw e;
+        });
+    }
+    return lazy.promise;
+  }
+
+  /** Runs the controller every update, after expressions and before physics. */
+  public addController(controller: controllerFramework.IModelController) {
+    this._controllers.push(controller);
+  }
+
+  public removeController(controller: controllerFramework.IModelController) {
+    this._controllers = this._controllers.filter((c) => c !== controller);
+  }
+
+  /**
+   * Sets a parameter from code, on top of animations, expressions and
+   * controllers. Physics follows it, and it also wins over physics outputs.
+   * It stays set until released.
+   */
+  public setParameter(
+    id: string,
+    value: number,
+    options?: overrideFramework.OverrideOptions
+  ) {
+    this._overrides.setParameter(id, value, options);
+    this._needsEvaluate = true;
+  }
+
+  /** Tweens the parameter back to animated control. */
+  public releaseParameter(id: string, fadeDuration?: number) {
+    this._overrides.releaseParameter(id, fadeDuration);
+    this._needsEvaluate = true;
+  }
+
+  /** The value the parameter had on the last update. */
+  public getParameter(id: string) {
+    const index = this._coreModel.parameters.ids.indexOf(id);
+    if (index === -1) throw new Error(`unknown parameter: ${id}`);
+    return this._coreModel.parameters.values[index];
+  }
+
+  public listParameters() {
+    const { ids, values, minimumValues, maximumValues, defaultValues } =
+      this._coreModel.parameters;
+    return ids.map((id, i) => ({
+      id,
+      value: values[i],
+      min: minimumValues[i],
+      max: maximumValues[i],
+      default: defaultValues[i],
+    }));
+  }
+
+  /**
+   * Sets a part opacity from code. Parts of a pose3.json group still switch
+   * through the pose, which treats a visible part as the requested one, and
+   * the opacity is applied again on top of what the pose shows.
+   */
+  public setPartOpacity(
+    id: string,
+    opacity: number,
+    options?: overrideFramework.OverrideOptions
+  ) {
+    this._overrides.setPartOpacity(id, opacity, options);
+    this._needsEvaluate = true;
+  }
+
+  public releasePartOpacity(id: string, fadeDuration?: number) {
+    this._overrides.releasePartOpacity(id, fadeDuration);
+    this._needsEvaluate = true;
+  }
+
+  /** Replaces the controller that voice playback drives the mouth with. */
+  public setLipSync(controller: lipSyncFramework.LipSyncController | null) {
+    if (this._lipSync) this.removeController(this._lipSync);
+    this._lipSync = controller;
+    if (!controller) return;
+    this.addController(controller);
+    if (this._voice) controller.source = this._getVoiceSource(this._voice);
   }
 
-  public playAnimation(key: string) {
-    const animatorLayer = this.animator.getLayer();
-    animatorLayer.play(this._animations[key]);
-    this._defaultAnimation = key;
-    this._currentAnimation = key;
+  /**
+   * Plays a voice, stopping the previous one, and lip-syncs to it. Browsers
+   * only allow this after a user gesture, so the promise of
+   * HTMLMediaElement.play() is passed on.
+   */
+  public playVoice(voice: string | HTMLMediaElement) {
+    this.stopVoice();
+    const audio = typeof voice === "string" ? new Audio(voice) : voice;
+    this._voice = audio;
+    this._ownsVoice = typeof voice === "string";
+    if (this._lipSync) this._lipSync.source = this._getVoiceSource(audio);
+    audio.addEventListener("ended", this._onVoiceEnded, { once: true });
+    return audio.play();
   }
 
-  public setNextAnimation(key: string, once?: boolean, immediately?: boolean) {
-    const animatorLayer = this.animator.getLayer();
-    const queues =
-      once && this._defaultAnimation ? [key, this._defaultAnimation] : [key];
-    if (immediately) {
-      const next = queues.shift();
-      if (!next) return;
-      animatorLayer.play(this._animations[next]);
-      this._currentAnimation = next;
+  /**
+   * Stops the voice. An element passed to playVoice stays routed through
+   * the model's audio context, so it can still be heard when played again.
+   */
+  public stopVoice() {
+    const voice = this._voice;
+    if (!voice) return;
+    this._voice = null;
+    voice.removeEventListener("ended", this._onVoiceEnded);
+    voice.pause();
+    if (this._lipSync) this._lipSync.source = null;
+
+    const source = this._voiceSources.get(voice);
+    if (this._ownsVoice && source) {
+      source.disconnect();
+      this._voiceSources.delete(voice);
+    }
+  }
+
+  private _getVoiceSource(audio: HTMLMediaElement) {
+    if (!this._audioContext) this._audioContext = new AudioContext();
+    let source = this._voiceSources.get(audio);
+    if (!source) {
+      source = lipSyncFramework.createMediaElementLipSyncSource(
+        audio,
+        this._audioContext
+      );
+      this._voiceSources.set(audio, source);
+    }
+    if (this._audioContext.state === "suspended") {
+      this._audioContext.resume().catch(() => undefined);
     }
-    animatorLayer.onAnimationEnd(() => {
-      const next = queues.shift();
-      if (!next) return;
-      animatorLayer.play(this._animations[next]);
-      this._currentAnimation = next;
+    return source;
+  }
+
+  public addExpression(key: string, data: expressionFramework.Exp3Json) {
+    this._expressionManager.add(key, data);
+  }
+
+  /**
+   * Layers the expression over the playing motion. The fade defaults to the
+   * FadeInTime / FadeOutTime of the exp3.json.
+   */
+  public setExpression(key: string, fadeSeconds?: number) {
+    this._expressionManager.set(key, fadeSeconds);
+  }
+
+  public clearExpression(fadeSeconds?: number) {
+    this._expressionManager.clear(fadeSeconds);
+  }
+
+  /**
+   * Sets the motion the base layer returns to when nothing else plays. The
+   * promise resolves once it is set, after loading it if needed, and rejects
+   * for a motion that is unknown or fails to load.
+   */
+  public setIdleAnimation(key: string, fadeDuration?: number) {
+    const manager = this._getMotionManager();
+    this._idleRequest = key;
+    if (!this._lazyAnimations[key]) return manager.setIdle(key, fadeDuration);
+
+    return this.loadAnimation(key).then(() => {
+      // Another idle motion was set while this one loaded.
+      if (this._idleRequest !== key) return;
+      return manager.setIdle(key, fadeDuration);
     });
   }
 
-  public update(delta: number) {
-    this._animator.updateAndEvaluate(0.016 * delta);
+  /**
+   * Plays on the base layer unless another animator layer is named, so that
+   * e.g. a gesture layer can play without interrupting the idle loop. The
+   * promise resolves once the motion has played through and rejects with a
+   * MotionInterruptedError when it is replaced or cancelled first, which
+   * includes while it is still loading.
+   */
+  public playAnimation(
+    key: string,
+    {
+      layer = animationFramework.DEFAULT_ANIMATION_LAYER,
+      ...options
+    }: { layer?: string } & motionFramework.MotionPlayOptions = {}
+  ) {
+    return this._getMotionManager(layer).play(key, options);
+  }
+
+  /**
+   * Like playAnimation, but waits for the current and queued motions. A
+   * motion that still has to load takes its place in the queue right away.
+   */
+  public queueAnimation(
+    key: string,
+    {
+      layer = animationFramework.DEFAULT_ANIMATION_LAYER,
+      ...options
+    }: { layer?: string } & motionFramework.MotionPlayOptions = {}
+  ) {
+    return this._getMotionManager(layer).queue(key, options);
+  }
+
+  /** Drops the current and queued motions and returns to the idle motion. */
+  public cancelAnimation({
+    layer = animationFramework.DEFAULT_ANIMATION_LAYER,
+    fadeDuration,
+  }: { layer?: string; fadeDuration?: number } = {}) {
+    this._getMotionManager(layer).cancel(fadeDuration);
+  }
+
+  private _getMotionManager(
+    layer = animationFramework.DEFAULT_ANIMATION_LAYER
+  ) {
+    if (!this._motionManagers[layer]) {
+      const manager = new motionFramework.MotionManager(
+        this._animator.getLayer(layer),
+        this._animations,
+        {
+          canLoad: (key) => !!this._lazyAnimations[key],
+          load: (key) => this.loadAnimation(key),
+        }
+      );
+      manager.onMotionStart((key) => {
+        const sound = this._sounds[key];
+        if (sound) this.playVoice(sound).catch(() => undefined);
+      });
+      manager.onMotionEnd((motion) =>
+        this._emit("motionend", { motion, layer })
+      );
+      this._motionManagers[layer] = manager;
+    }
+    return this._motionManagers[layer];
+  }
+
+  /** Freezes the model in its pose until resumed. */
+  public pause() {
+    this._clock.pause();
+  }
+
+  public resume() {
+    this._clock.resume();
+  }
+
+  /**
+   * Jumps to a time in the current motion of the layer, which shows on the
+   * next update even while paused.
+   */
+  public seek(time: number, { layer }: { layer?: string } = {}) {
+    this._animator.getLayer(layer).seek(time);
+    this._needsEvaluate = true;
+  }
+
+  // Bound once, it runs up to several times per update in fixed steps.
+  private _step = (deltaTime: number) => {
+    Object.values(this._motionManagers).forEach((manager) => manager.update());
+    this._animator.updateAndEvaluate(deltaTime);
+    this._expressionManager.updateAndEvaluate(
+      deltaTime,
+      this._animator.stackFlags
+    );
+    this._controllers.forEach((controller) =>
+      controller.update(deltaTime, this._animator.stackFlags)
+    );
+    this._overrides.update(deltaTime, this._animator.stackFlags);
+    if (this._physics) this._physics.updateAndEvaluate(deltaTime);
+    if (this._pose) {
+      this._pose.updateAndEvaluate(deltaTime, this._animator.stackFlags);
+    }
+    this._overrides.reapply();
+  };
+
+  /**
+   * Advances the model by `deltaTime` seconds of real time, through the
+   * clock. The meshes are left alone when the clock did not advance.
+   */
+  public update(deltaTime: number) {
+    let steps = this._clock.advance(deltaTime, this._step);
+    if (!steps && this._needsEvaluate) {
+      this._step(0);
+      steps = 1;
+    }
+    this._needsEvaluate = false;
+    if (!steps) return;
     this._coreModel.update();
 
+    this.alpha = this._animator.opacity;
     this._meshes.forEach((mesh, i) => {
       mesh.alpha = this._coreModel.drawables.opacities[i];
       mesh.visible = Live2DCubismCore.Utils.hasIsVisibleBit(
@@ -160,6 +763,18 @@ export class Model extends PIXI.Container {
         )
       ) {
         mesh.vertices = this._coreModel.drawables.vertexPositions[i];
+        this._maskSpriteContainer.invalidate(i);
+      }
+      // Setting zIndex marks the model for re-sorting before the next render.
+      if (
+        Live2DCubismCore.Utils.hasRenderOrderDidChangeBit(
+          this._coreModel.drawables.dynamicFlags[i]
+        ) ||
+        Live2DCubismCore.Utils.hasDrawOrderDidChangeBit(
+          this._coreModel.drawables.dynamicFlags[i]
+        )
+      ) {
+        mesh.zIndex = this._coreModel.drawables.renderOrders[i];
       }
     });
 
@@ -167,87 +782,251 @@ export class Model extends PIXI.Container {
   }
 
   public destroy() {
+    Object.values(this._motionManagers).forEach((manager) => manager.destroy());
+    this.stopVoice();
+    if (this._audioContext) this._audioContext.close().catch(() => undefined);
     this._coreModel.release();
     super.destroy();
     this.masks.destroy();
     this._meshes.forEach((mesh) => mesh.destroy());
   }
 
+  public getTextureByDrawableIndex(drawableIndex: number) {
+    const textureIndex =
+      this._coreModel.drawables.textureIndices[drawableIndex];
+    const texture = this._textures[textureIndex];
+    if (!texture) {
+      throw new Error(
+        `missing texture ${textureIndex} for drawable ${this._coreModel.drawables.ids[drawableIndex]}`
+      );
+    }
+    return texture;
+  }
+
+  private _emit<K extends keyof ModelEventMap>(
+    event: K,
+    payload: ModelEventMap[K]
+  ) {
+    this.emit(event, payload);
+  }
+
   public getModelMeshById(id: string) {
     return this._meshes.find((mesh) => mesh.name === id);
   }
+
+  /**
+   * Names of the hit areas under a point in stage coordinates (the pixels of
+   * the container), front-most first. Tests the deformed mesh of this frame.
+   */
+  public hitTest(x: number, y: number) {
+    const ids = this.hitTestDrawables(x, y);
+    return this._hitAreas
+      .filter(({ id }) => ids.includes(id))
+      .sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+      .map(({ name }) => name);
+  }
+
+  /** Ids of the visible drawables under a point, front-most first. */
+  public hitTestDrawables(x: number, y: number) {
+    const local = this.toLocal(new PIXI.Point(x, y));
+    return this._meshes
+      .filter((_mesh, i) => this._containsLocalPoint(i, local.x, local.y))
+      .sort((a, b) => b.zIndex - a.zIndex)
+      .map((mesh) => mesh.name);
+  }
+
+  private _containsLocalPoint(drawableIndex: number, x: number, y: number) {
+    if (drawableIndex === -1 || !this._meshes[drawableIndex].visible) {
+      return false;
+    }
+    // Meshes are flipped vertically, see the constructor.
+    return containsPoint(
+      this._coreModel.drawables.vertexPositions[drawableIndex],
+      this._coreModel.drawables.indices[drawableIndex],
+      x,
+      -y
+    );
+  }
 }
 
+type MaskGroup = {
+  /** Drawables whose vertices make up the mask. */
+  maskIds: number[];
+  container: PIXI.Container;
+  sprite: PIXI.Sprite;
+  atlasIndex: number;
+  cell: PIXI.Rectangle;
+  dirty: boolean;
+};
+
+/** Blank pixels around each cell so neighbours never bleed into a mask. */
+const MASK_CELL_PADDING = 2;
+/** Extra room around the mask vertices, relative to their bounds. */
+const MASK_BOUNDS_MARGIN = 0.05;
+
+/**
+ * Renders clipping masks into shared atlas textures, like the official
+ * framework's clipping manager. Drawables clipped by the same set of masks
+ * share one cell and one mask sprite, each atlas holds up to
+ * `maxCellsPerAtlas` cells, and an atlas is only re-rendered when the
+ * vertices of one of its masks changed.
+ */
 export class MaskSpriteContainer extends PIXI.Container {
-  private _maskSprites: PIXI.Sprite[];
-  private _maskMeshContainers: PIXI.Container[];
-  private _maskTextures: PIXI.RenderTexture[];
+  private _model: Model;
+  private _groups: MaskGroup[];
+  private _atlases: PIXI.RenderTexture[];
 
   get maskSprites() {
-    return this._maskSprites;
+    return this._groups.map(({ sprite }) => sprite);
   }
 
   get maskMeshes() {
-    return this._maskMeshContainers;
+    return this._groups.map(({ container }) => container);
   }
 
-  constructor(model: Model) {
+  get atlases() {
+    return this._atlases;
+  }
+
+  constructor(
+    model: Model,
+    {
+      atlasSize = 2048,
+      maxCellsPerAtlas = 16,
+    }: { atlasSize?: number; maxCellsPerAtlas?: number } = {}
+  ) {
     super();
 
-    this._maskMeshContainers = [];
-    this._maskTextures = [];
-    this._maskSprites = [];
+    this._model = model;
+    this.transform = model.transform;
 
+    const { drawables } = model.coreModel;
+    const groupsByKey: Record<string, number[]> = {};
+    const groupKeys: string[] = [];
     model.meshes.forEach((_mesh, meshIndex) => {
-      if (model.coreModel.drawables.maskCounts[meshIndex] === 0) return;
+      if (drawables.maskCounts[meshIndex] === 0) return;
+      const key = [...drawables.masks[meshIndex]].sort((a, b) => a - b).join();
+      if (!groupsByKey[key]) {
+        groupsByKey[key] = [];
+        groupKeys.push(key);
+      }
+      groupsByKey[key].push(meshIndex);
+    });
 
-      const maskMeshContainer = new PIXI.Container();
+    const atlasCount = Math.ceil(groupKeys.length / maxCellsPerAtlas);
+    this._atlases = [...Array(atlasCount)].map(() =>
+      PIXI.RenderTexture.create({ width: atlasSize, height: atlasSize })
+    );
 
-      model.coreModel.drawables.masks[meshIndex].forEach((maskId) => {
+    this._groups = groupKeys.map((key, groupIndex) => {
+      const atlasIndex = Math.floor(groupIndex / maxCellsPerAtlas);
+      const cellIndex = groupIndex % maxCellsPerAtlas;
+      const cellsInAtlas = Math.min(
+        groupKeys.length - atlasIndex * maxCellsPerAtlas,
+        maxCellsPerAtlas
+      );
+      const grid = Math.ceil(Math.sqrt(cellsInAtlas));
+      const cellSize = Math.floor(atlasSize / grid);
+      const cell = new PIXI.Rectangle(
+        (cellIndex % grid) * cellSize + MASK_CELL_PADDING,
+        Math.floor(cellIndex / grid) * cellSize + MASK_CELL_PADDING,
+        cellSize - MASK_CELL_PADDING * 2,
+        cellSize - MASK_CELL_PADDING * 2
+      );
+
+      const maskIds = key.split(",").map(Number);
+      const container = new PIXI.Container();
+      maskIds.forEach((maskId) => {
         const maskMesh = new PIXI.SimpleMesh(
-          model.texture,
-          model.coreModel.drawables.vertexPositions[maskId],
-          model.coreModel.drawables.vertexUvs[maskId].map((uv, uvIndex) => {
+          model.getTextureByDrawableIndex(maskId),
+          drawables.vertexPositions[maskId],
+          drawables.vertexUvs[maskId].map((uv, uvIndex) => {
             const isEven = (uvIndex + 1) % 2 == 0;
             return isEven ? 1 - uv : uv;
           }),
-          model.coreModel.drawables.indices[maskId],
+          drawables.indices[maskId],
           PIXI.DRAW_MODES.TRIANGLES
         );
         maskMesh.name = model.meshes[maskId].name;
-        maskMesh.transform = model.meshes[maskId].transform;
-        maskMeshContainer.addChild(maskMesh);
+        maskMesh.scale.y = -1;
+        container.addChild(maskMesh);
       });
 
-      maskMeshContainer.transform = model.transform;
-      this._maskMeshContainers.push(maskMeshContainer);
-
-      const maskTexture = PIXI.RenderTexture.create();
-      this._maskTextures.push(maskTexture);
+      const sprite = new PIXI.Sprite(
+        new PIXI.Texture(this._atlases[atlasIndex].baseTexture, cell)
+      );
+      this.addChild(sprite);
+      groupsByKey[key].forEach((meshIndex) => {
+        model.meshes[meshIndex].mask = sprite;
+      });
 
-      const maskSprite = new PIXI.Sprite(maskTexture);
-      this._maskSprites.push(maskSprite);
-      this.addChild(maskSprite);
+      return { maskIds, container, sprite, atlasIndex, cell, dirty: true };
+    });
+  }
 
-      model.meshes[meshIndex].mask = maskSprite;
+  /** Marks the masks built from the drawable for re-rendering. */
+  public invalidate(drawableIndex: number) {
+    this._groups.forEach((group) => {
+      if (group.maskIds.includes(drawableIndex)) group.dirty = true;
     });
   }
 
   public destroy() {
-    this._maskSprites.forEach((sprite) => sprite.destroy());
-    this._maskTextures.forEach((texture) => texture.destroy());
-    this._maskMeshContainers.forEach((container) => container.destroy());
+    this._groups.forEach(({ sprite, container }) => {
+      sprite.destroy({ texture: true });
+      container.destroy({ children: true });
+    });
+    this._atlases.forEach((texture) => texture.destroy(true));
   }
 
   public update(appRenderer: PIXI.Renderer) {
-    this._maskSprites.forEach((_sprite, i) => {
-      appRenderer.render(this._maskMeshContainers[i], this._maskTextures[i]);
+    this._atlases.forEach((atlas, atlasIndex) => {
+      const groups = this._groups.filter(
+        (group) => group.atlasIndex === atlasIndex
+      );
+      if (!groups.some(({ dirty }) => dirty)) return;
+
+      // Clearing is all or nothing, so every cell of the atlas is redrawn.
+      groups.forEach((group, i) => {
+        if (group.dirty) this._fitGroup(group);
+        group.dirty = false;
+        appRenderer.render(group.container, atlas, i === 0);
+      });
     });
   }
 
-  public resize(viewWidth: number, viewHeight: number) {
-    this._maskTextures.forEach((texture) => {
-      texture.resize(viewWidth, viewHeight);
+  /**
+   * Maps the bounds of the mask vertices onto the cell, and the cell back
+   * onto the same bounds in model space for the mask sprite.
+   */
+  private _fitGroup({ maskIds, container, sprite, cell }: MaskGroup) {
+    const { vertexPositions } = this._model.coreModel.drawables;
+    let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+    maskIds.forEach((maskId) => {
+      const positions = vertexPositions[maskId];
+      for (let i = 0; i + 1 < positions.length; i += 2) {
+        minX = Math.min(minX, positions[i]);
+        maxX = Math.max(maxX, positions[i]);
+        minY = Math.min(minY, positions[i + 1]);
+        maxY = Math.max(maxY, positions[i + 1]);
+      }
     });
+    if (minX > maxX || minY > maxY) [minX, minY, maxX, maxY] = [0, 0, 0, 0];
+
+    const marginX = Math.max((maxX - minX) * MASK_BOUNDS_MARGIN, 1e-4);
+    const marginY = Math.max((maxY - minY) * MASK_BOUNDS_MARGIN, 1e-4);
+    minX -= marginX;
+    maxX += marginX;
+    minY -= marginY;
+    maxY += marginY;
+
+    // Mask meshes are flipped like the model's, so model space y is -y.
+    const scaleX = cell.width / (maxX - minX);
+    const scaleY = cell.height / (maxY - minY);
+    container.scale.set(scaleX, scaleY);
+    container.position.set(cell.x - minX * scaleX, cell.y + maxY * scaleY);
+
+    sprite.position.set(minX, -maxY);
+    sprite.scale.set(1 / scaleX, 1 / scaleY);
   }
 }
@@ -0,0 +1,188 @@
+import { Animation, AnimationLayer } from "./animation";
+import {
+  MotionInterruptedError,
+  MotionLoader,
+  MotionManager,
+  MotionPriority,
+} from "./motion";
+import { parseMotion3Json } from "./parser";
+
+const createAnimation = () =>
+  new Animation(
+    parseMotion3Json({
+      Version: 3,
+      Meta: {
+        Duration: 1,
+        Fps: 30,
+        Loop: false,
+        LoopFadeIn: false,
+        AreBeziersRestricted: true,
+        CurveCount: 0,
+        TotalSegmentCount: 0,
+        TotalPointCount: 0,
+        UserDataCount: 0,
+        TotalUserDataSize: 0,
+      },
+      Curves: [],
+      UserData: [],
+    }).value
+  );
+
+/** Motions "lazy*" load when `finish` is called with their key. */
+const createManager = () => {
+  const layer = new AnimationLayer();
+  const animations: Record<string, Animation> = {
+    idle: createAnimation(),
+    loaded: createAnimation(),
+  };
+  const loads: Record<string, { resolve: () => void; reject: () => void }> = {};
+  const loader: MotionLoader = {
+    canLoad: (key) => key.startsWith("lazy") && !animations[key],
+    load: (key) =>
+      new Promise<void>((resolve, reject) => {
+        loads[key] = {
+          resolve: () => {
+            animations[key] = createAnimation();
+            resolve();
+          },
+          reject: () => reject(new Error(`failed: ${key}`)),
+        };
+      }),
+  };
+  const manager = new MotionManager(layer, animations, loader);
+  manager.setIdle("idle", 0);
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const finish = async (key: string) => {
+    loads[key].resolve();
+    await flush();
+  };
+  const fail = async (key: string) => {
+    loads[key].reject();
+    await flush();
+  };
+  /** Plays the current motion through. */
+  const end = () => layer._update(1);
+  return { manager, layer, finish, fail, end };
+};
+
+describe("MotionManager", () => {
+  test("keeps the order of queued motions that are still loading", async () => {
+    const { manager, finish, end } = createManager();
+    const started: string[] = [];
+    manager.onMotionStart((key) => started.push(key));
+
+    manager.queue("lazyA");
+    manager.queue("lazyB");
+    manager.queue("loaded");
+    expect(manager.currentMotion).toBe("lazyA");
+    expect(manager.queuedMotions).toEqual(["lazyB", "loaded"]);
+
+    await finish("lazyB");
+    expect(started).toEqual([]);
+    await finish("lazyA");
+    expect(started).toEqual(["lazyA"]);
+    end();
+    expect(started).toEqual(["lazyA", "lazyB"]);
+    end();
+    expect(started).toEqual(["lazyA", "lazyB", "loaded"]);
+  });
+
+  test("waits on the idle motion for a queued motion still loading", async () => {
+    const { manager, finish, end } = createManager();
+    manager.queue("loaded");
+    const lazy = manager.queue("lazyA");
+    end();
+    expect(manager.currentMotion).toBe("lazyA");
+    expect(manager.idleMotion).toBe("idle");
+
+    await finish("lazyA");
+    end();
+    await expect(lazy).resolves.toBeUndefined();
+  });
+
+  test("drops a motion that is cancelled while it loads", async () => {
+    const { manager, finish } = createManager();
+    const started: string[] = [];
+    manager.onMotionStart((key) => started.push(key));
+
+    const played = manager.play("lazyA");
+    const queued = manager.queue("lazyB");
+    manager.cancel();
+    await expect(played).rejects.toBeInstanceOf(MotionInterruptedError);
+    await expect(queued).rejects.toBeInstanceOf(MotionInterruptedError);
+
+    await finish("lazyA");
+    await finish("lazyB");
+    expect(started).toEqual(["idle"]);
+    expect(manager.currentMotion).toBe("idle");
+  });
+
+  test("checks the priority of a motion before it has loaded", async () => {
+    const { manager, finish } = createManager();
+    const forced = manager.play("lazyA", { priority: MotionPriority.forced });
+    const normal = manager.play("loaded");
+    await expect(normal).rejects.toBeInstanceOf(MotionInterruptedError);
+
+    await finish("lazyA");
+    expect(manager.currentMotion).toBe("lazyA");
+    expect(manager.currentPriority).toBe(MotionPriority.forced);
+    const settled = jest.fn();
+    forced.then(settled, settled);
+    await Promise.resolve();
+    expect(settled).not.toHaveBeenCalled();
+  });
+
+  test("moves on when a motion fails to load", async () => {
+    const { manager, fail, finish } = createManager();
+    const started: string[] = [];
+    manager.onMotionStart((key) => started.push(key));
+
+    const failed = expect(manager.queue("lazyA")).rejects.toThrow(
+      "failed: lazyA"
+    );
+    manager.queue("lazyB");
+    await fail("lazyA");
+    await failed;
+    expect(manager.currentMotion).toBe("lazyB");
+
+    await finish("lazyB");
+    expect(started).toEqual(["idle", "lazyB"]);
+  });
+
+  test("starts a motion without Meta.Loop over when it loops", async () => {
+    const { manager, layer, finish, end } = createManager();
+    const started: string[] = [];
+    manager.onMotionStart((key) => started.push(key));
+
+    const looped = manager.play("loaded", { loop: true });
+    end();
+    expect(manager.currentMotion).toBe("loaded");
+    expect(layer.currentTime).toBe(0);
+    expect(layer.hasEnded).toBe(false);
+
+    manager.queue("lazyA");
+    await finish("lazyA");
+    layer._update(0.5);
+    expect(manager.currentMotion).toBe("loaded");
+    layer._update(0.5);
+    expect(manager.currentMotion).toBe("lazyA");
+    expect(started).toEqual(["loaded", "lazyA"]);
+    await expect(looped).resolves.toBeUndefined();
+  });
+
+  test("rejects a motion it can neither find nor load", async () => {
+    const { manager } = createManager();
+    manager.play("loaded");
+    await expect(manager.play("unknown")).rejects.toThrow(
+      "unknown motion: unknown"
+    );
+    await expect(manager.queue("unknown")).rejects.toThrow(
+      "unknown motion: unknown"
+    );
+    await expect(manager.setIdle("unknown")).rejects.toThrow(
+      "unknown motion: unknown"
+    );
+    expect(manager.currentMotion).toBe("loaded");
+    expect(manager.idleMotion).toBe("idle");
+  });
+});
@@ -0,0 +1,346 @@
+import { Animation, AnimationLayer } from "./animation";
+
+/**
+ * Same ordering as the official framework: a motion can only be replaced by
+ * one of equal or higher priority.
+ */
+export const MotionPriority = {
+  idle: 1,
+  normal: 2,
+  forced: 3,
+} as const;
+export type MotionPriority = typeof MotionPriority[keyof typeof MotionPriority];
+
+export type MotionPlayOptions = {
+  priority?: MotionPriority;
+  /**
+   * Keep looping after the first pass instead of returning to idle, starting
+   * over at the end also without Meta.Loop. A queued motion starts at the end
+   * of a pass.
+   */
+  loop?: boolean;
+  fadeDuration?: number;
+};
+
+export class MotionInterruptedError extends Error {
+  constructor(public motion: string) {
+    super(`motion interrupted: ${motion}`);
+    this.name = "MotionInterruptedError";
+  }
+}
+
+/** Loads motions on demand, see Model.addLazyAnimation. */
+export type MotionLoader = {
+  /** Whether the motion is not loaded yet, but can be. */
+  canLoad: (key: string) => boolean;
+  /** Resolves once the motion is in the animations. */
+  load: (key: string) => Promise<void>;
+};
+
+const rejectUnknownMotion = (key: string) =>
+  Promise.reject(new Error(`unknown motion: ${key}`));
+
+const noMotionLoader: MotionLoader = {
+  canLoad: () => false,
+  load: rejectUnknownMotion,
+};
+
+type MotionRequest = {
+  key: string;
+  priority: MotionPriority;
+  loop: boolean;
+  fadeDuration?: number;
+  /** The load started for it, if its motion was not loaded yet. */
+  loading: Promise<void> | null;
+  settled: boolean;
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (reason: Error) => void;
+};
+
+/**
+ * Decides what an animation layer plays: an idle motion at the bottom,
+ * prioritized requests on top of it and a queue of requests waiting for the
+ * current one to finish. Every request is a promise that resolves when the
+ * motion has played through once and rejects when it is interrupted.
+ *
+ * A motion that still has to load takes its place right away, as the current
+ * request or in the queue, and starts once its turn has come and it has
+ * loaded. Until then the layer keeps showing what it showed, or the idle
+ * motion once the motion before it has ended.
+ */
+export class MotionManager {
+  private _layer: AnimationLayer;
+  private _animations: Record<string, Animation>;
+  private _loader: MotionLoader;
+  private _idle: { key: string; fadeDuration?: number } | null = null;
+  private _current: MotionRequest | null = null;
+  private _queue: MotionRequest[] = [];
+  private _removeAnimationEndCallback: () => void;
+  private _motionStartCallbacks: ((key: string) => void)[] = [];
+  private _motionEndCallbacks: ((key: string) => void)[] = [];
+
+  get currentMotion() {
+    if (this._current) return this._current.key;
+    return this._idle && this._layer.currentAnimation ? this._idle.key : null;
+  }
+
+  get currentPriority() {
+    if (this._current) return this._current.priority;
+    return this._idle ? MotionPriority.idle : null;
+  }
+
+  get idleMotion() {
+    return this._idle ? this._idle.key : null;
+  }
+
+  get queuedMotions() {
+    return this._queue.map(({ key }) => key);
+  }
+
+  constructor(
+    layer: MotionManager["_layer"],
+    animations: MotionManager["_animations"],
+    loader: MotionManager["_loader"] = noMotionLoader
+  ) {
+    this._layer = layer;
+    this._animations = animations;
+    this._loader = loader;
+    this._removeAnimationEndCallback = layer.onAnimationEnd((animation) =>
+      this._onAnimationEnd(animation)
+    );
+  }
+
+  /**
+   * Called whenever a motion (including the idle one) starts playing. Returns
+   * a function that removes the callback again.
+   */
+  public onMotionStart(cb: (key: string) => void) {
+    this._motionStartCallbacks.push(cb);
+    return () => {
+      this._motionStartCallbacks = this._motionStartCallbacks.filter(
+        (callback) => callback !== cb
+      );
+    };
+  }
+
+  /** Called whenever a played or queued motion has played through once. */
+  public onMotionEnd(cb: (key: string) => void) {
+    this._motionEndCallbacks.push(cb);
+    return () => {
+      this._motionEndCallbacks = this._motionEndCallbacks.filter(
+        (callback) => callback !== cb
+      );
+    };
+  }
+
+  /**
+   * Sets the motion to fall back to, and plays it if nothing else is. Rejects
+   * for a motion that is not loaded.
+   */
+  public setIdle(key: string, fadeDuration?: number) {
+    if (!this._animations[key]) return rejectUnknownMotion(key);
+    this._idle = { key, fadeDuration };
+    if (!this._current) this._playIdle();
+    return Promise.resolve();
+  }
+
+  /**
+   * Plays right away when the priority is at least that of the current
+   * motion, interrupting it and dropping the queue. Otherwise the returned
+   * promise rejects immediately. A motion that is still loading counts as
+   * the current one. Rejects, without interrupting anything, for a motion
+   * it can neither find nor load.
+   */
+  public play(key: string, options: MotionPlayOptions = {}) {
+    if (!this._canPlay(key)) return rejectUnknownMotion(key);
+    const request = this._createRequest(key, options);
+
+    const currentPriority = this.currentPriority;
+    if (currentPriority !== null && request.priority < currentPriority) {
+      this._settle(request, new MotionInterruptedError(key));
+      return request.promise;
+    }
+
+    this._rejectQueue();
+    if (this._current)
+      this._settle(
+        this._current,
+        new MotionInterruptedError(this._current.key)
+      );
+    this._begin(request);
+    return request.promise;
+  }
+
+  /** Plays after the current motion and everything queued before it. */
+  public queue(key: string, options: MotionPlayOptions = {}) {
+    if (!this._canPlay(key)) return rejectUnknownMotion(key);
+    const request = this._createRequest(key, options);
+
+    if (this._current) {
+      this._queue.push(request);
+    } else {
+      this._begin(request);
+    }
+    return request.promise;
+  }
+
+  /**
+   * Starts the next queued motion when the current one is held at its end,
+   * in case its end was reported before anything was queued. Called every
+   * update, before the layer is.
+   */
+  public update() {
+    const current = this._current;
+    if (!current || !this._queue.length || !this._layer.hasEnded) return;
+    if (this._layer.currentAnimation !== this._animations[current.key]) return;
+
+    this._settle(current);
+    [...this._motionEndCallbacks].forEach((cb) => cb(current.key));
+    this._startNext();
+  }
+
+  /** Interrupts the current motion, drops the queue and returns to idle. */
+  public cancel(fadeDuration?: number) {
+    this._rejectQueue();
+    if (this._current) {
+      const current = this._current;
+      this._current = null;
+      this._settle(current, new MotionInterruptedError(current.key));
+    }
+    this._playIdle(fadeDuration);
+  }
+
+  public destroy() {
+    this._removeAnimationEndCallback();
+    this.cancel(0);
+  }
+
+  private _canPlay(key: string) {
+    return !!this._animations[key] || this._loader.canLoad(key);
+  }
+
+  private _getAnimation(key: string) {
+    const animation = this._animations[key];
+    if (!animation) throw new Error(`unknown motion: ${key}`);
+    return animation;
+  }
+
+  private _createRequest(
+    key: string,
+    {
+      priority = MotionPriority.normal,
+      loop = false,
+      fadeDuration,
+    }: MotionPlayOptions
+  ): MotionRequest {
+    let loading: Promise<void> | null = null;
+    if (!this._animations[key]) {
+      loading = this._loader.load(key);
+      // Failures are reported through the request once it is its turn.
+      loading.catch(() => undefined);
+    }
+
+    let resolve: MotionRequest["resolve"] = () => undefined;
+    let reject: MotionRequest["reject"] = () => undefined;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return {
+      key,
+      priority,
+      loop,
+      fadeDuration,
+      loading,
+      settled: false,
+      promise,
+      resolve,
+      reject,
+    };
+  }
+
+  /**
+   * Makes the request the current one and starts it, right away unless it
+   * has to finish loading first. Returns whether it started.
+   */
+  private _begin(request: MotionRequest) {
+    this._current = request;
+    if (this._animations[request.key]) {
+      this._start(request);
+      return true;
+    }
+
+    const loading = request.loading || this._loader.load(request.key);
+    loading.then(
+      () => {
+        if (this._current === request) this._start(request);
+      },
+      (error) => {
+        if (this._current !== request) return;
+        this._settle(request, error);
+        this._startNext();
+      }
+    );
+    return false;
+  }
+
+  /** Begins the next queued request, showing the idle motion meanwhile. */
+  private _startNext() {
+    const next = this._queue.shift();
+    this._current = null;
+    if (next && this._begin(next)) return;
+    this._playIdle();
+  }
+
+  private _start(request: MotionRequest) {
+    this._layer.play(this._getAnimation(request.key), request.fadeDuration);
+    this._emitMotionStart(request.key);
+  }
+
+  private _emitMotionStart(key: string) {
+    [...this._motionStartCallbacks].forEach((cb) => cb(key));
+  }
+
+  private _playIdle(fadeDuration?: number) {
+    if (!this._idle) {
+      this._layer.clear();
+      return;
+    }
+    this._layer.play(
+      this._getAnimation(this._idle.key),
+      fadeDuration ?? this._idle.fadeDuration
+    );
+    this._emitMotionStart(this._idle.key);
+  }
+
+  private _settle(request: MotionRequest, error?: Error) {
+    if (request.settled) return;
+    request.settled = true;
+    if (error) request.reject(error);
+    else request.resolve();
+  }
+
+  private _rejectQueue() {
+    const queue = this._queue;
+    this._queue = [];
+    queue.forEach((request) =>
+      this._settle(request, new MotionInterruptedError(request.key))
+    );
+  }
+
+  private _onAnimationEnd(animation: Animation) {
+    const current = this._current;
+    if (!current || this._animations[current.key] !== animation) return;
+
+    this._settle(current);
+    [...this._motionEndCallbacks].forEach((cb) => cb(current.key));
+    if (current.loop && !this._queue.length) {
+      // The layer holds an animation without Meta.Loop at its end.
+      if (!animation.loop) this._layer.seek(0);
+      return;
+    }
+
+    this._startNext();
+  }
+}
@@ -0,0 +1,90 @@
+import { StackFlags } from "./animation";
+import { ParameterOverrides } from "./override";
+
+const createTarget = () => ({
+  parameters: {
+    ids: ["ParamAngleX", "ParamHairFront"],
+    values: new Float32Array(2),
+    defaultValues: [0, 0],
+    minimumValues: [-30, -1],
+    maximumValues: [30, 1],
+  },
+  parts: { ids: ["PartArmA", "PartArmB"], opacities: new Float32Array(2) },
+});
+
+const createStackFlags = (): StackFlags => [
+  new Uint8Array(2),
+  new Uint8Array(2),
+];
+
+describe("ParameterOverrides", () => {
+  test("wins over values changed after it was applied", () => {
+    const target = createTarget();
+    const overrides = new ParameterOverrides(
+      target as unknown as Live2DCubismCore.Model
+    );
+    overrides.setParameter("ParamHairFront", 0.5);
+    overrides.setPartOpacity("PartArmB", 0);
+    overrides.update(0, createStackFlags());
+
+    // What physics and pose do next.
+    target.parameters.values[1] = -0.8;
+    target.parts.opacities[1] = 1;
+    overrides.reapply();
+    expect(target.parameters.values[1]).toBeCloseTo(0.5);
+    expect(target.parts.opacities[1]).toBeCloseTo(0);
+  });
+
+  test("does not blend values nothing changed a second time", () => {
+    const target = createTarget();
+    const overrides = new ParameterOverrides(
+      target as unknown as Live2DCubismCore.Model
+    );
+    overrides.setParameter("ParamAngleX", 10, { blend: "add" });
+    overrides.update(0, createStackFlags());
+    overrides.reapply();
+    expect(target.parameters.values[0]).toBeCloseTo(10);
+
+    target.parameters.values[0] = 5;
+    overrides.reapply();
+    expect(target.parameters.values[0]).toBeCloseTo(15);
+  });
+
+  test("takes add and multiply values as offsets and factors", () => {
+    const target = createTarget();
+    const overrides = new ParameterOverrides(
+      target as unknown as Live2DCubismCore.Model
+    );
+    const stackFlags = createStackFlags();
+    stackFlags[0].fill(1);
+    target.parameters.values.set([10, 0.4]);
+    overrides.setParameter("ParamAngleX", -50, { blend: "add" });
+    overrides.setParameter("ParamHairFront", 2, { blend: "multiply" });
+    overrides.update(0, stackFlags);
+    // Only the result is clamped to the range.
+    expect(target.parameters.values[0]).toBeCloseTo(-30);
+    expect(target.parameters.values[1]).toBeCloseTo(0.8);
+  });
+
+  test("writes the animated value back when released at once", () => {
+    const target = createTarget();
+    const overrides = new ParameterOverrides(
+      target as unknown as Live2DCubismCore.Model
+    );
+    overrides.setParameter("ParamHairFront", 0.5);
+    overrides.setPartOpacity("PartArmB", 0);
+    overrides.update(0, createStackFlags());
+    overrides.releaseParameter("ParamHairFront");
+    overrides.releasePartOpacity("PartArmB");
+
+    // Nothing animates either, so they go back to their defaults.
+    overrides.update(0, createStackFlags());
+    expect(target.parameters.values[1]).toBeCloseTo(0);
+    expect(target.parts.opacities[1]).toBeCloseTo(1);
+
+    // And are no longer applied.
+    target.parameters.values[1] = -0.8;
+    overrides.reapply();
+    expect(target.parameters.values[1]).toBeCloseTo(-0.8);
+  });
+});
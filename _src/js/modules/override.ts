@@ -0,0 +1,206 @@
+import {
+  builtinAnimationBlenders,
+  IAnimationBlender,
+  StackFlags,
+} from "./animation";
+import { prepareParameter } from "./controller";
+
+export type OverrideBlend = keyof typeof builtinAnimationBlenders;
+
+export type OverrideOptions = {
+  /** override replaces the animated value, add and multiply modify it. */
+  blend?: OverrideBlend;
+  weight?: number;
+  /** Seconds to tween from animated control to the value. */
+  fadeDuration?: number;
+};
+
+type OverrideEntry = {
+  value: number;
+  blend: IAnimationBlender;
+  weight: number;
+  /** 0 is animated control, 1 the full override weight. */
+  fade: number;
+  fadeDuration: number;
+  releasing: boolean;
+  /** What the last pass left in the model, to tell if it was changed since. */
+  applied: number;
+};
+
+const advanceFade = (entry: OverrideEntry, deltaTime: number) => {
+  const step =
+    entry.fadeDuration > 0 ? Math.max(deltaTime, 0) / entry.fadeDuration : 1;
+  entry.fade = entry.releasing
+    ? Math.max(entry.fade - step, 0)
+    : Math.min(entry.fade + step, 1);
+};
+
+const applyEntry = (
+  entry: OverrideEntry,
+  values: Float32Array,
+  index: number,
+  minimum: number,
+  maximum: number
+) => {
+  values[index] = Math.min(
+    Math.max(
+      entry.blend(values[index], entry.value, 0, entry.weight * entry.fade),
+      minimum
+    ),
+    maximum
+  );
+  entry.applied = values[index];
+};
+
+/**
+ * Values set from code (sliders, game logic) that win over the animations.
+ * They are applied every frame after the animator, expressions and
+ * controllers, so that physics and pose follow them, then once more to
+ * whatever physics and pose changed. They tween in and back out over their
+ * fade durations.
+ */
+export class ParameterOverrides {
+  private _target: Live2DCubismCore.Model;
+  private _parameters = new Map<number, OverrideEntry>();
+  private _parts = new Map<number, OverrideEntry>();
+
+  constructor(target: ParameterOverrides["_target"]) {
+    this._target = target;
+  }
+
+  /**
+   * With the override blend the value is clamped to the parameter's range.
+   * For add and multiply it is an offset or a factor, and the result is
+   * clamped instead.
+   */
+  public setParameter(id: string, value: number, options?: OverrideOptions) {
+    const index = this._getParameterIndex(id);
+    const { minimumValues, maximumValues } = this._target.parameters;
+    this._set(
+      this._parameters,
+      index,
+      value,
+      minimumValues[index],
+      maximumValues[index],
+      options
+    );
+  }
+
+  /** Hands the parameter back to the animations. */
+  public releaseParameter(id: string, fadeDuration = 0) {
+    this._release(this._parameters, this._getParameterIndex(id), fadeDuration);
+  }
+
+  /** Clamped to [0, 1] the same way as parameters to their range. */
+  public setPartOpacity(
+    id: string,
+    opacity: number,
+    options?: OverrideOptions
+  ) {
+    this._set(this._parts, this._getPartIndex(id), opacity, 0, 1, options);
+  }
+
+  public releasePartOpacity(id: string, fadeDuration = 0) {
+    this._release(this._parts, this._getPartIndex(id), fadeDuration);
+  }
+
+  public update(deltaTime: number, stackFlags: StackFlags) {
+    const { parameters, parts } = this._target;
+
+    this._parameters.forEach((entry, index) => {
+      advanceFade(entry, deltaTime);
+      prepareParameter(this._target, stackFlags, index);
+      applyEntry(
+        entry,
+        parameters.values,
+        index,
+        parameters.minimumValues[index],
+        parameters.maximumValues[index]
+      );
+      if (entry.releasing && entry.fade <= 0) this._parameters.delete(index);
+    });
+
+    this._parts.forEach((entry, index) => {
+      advanceFade(entry, deltaTime);
+      if (!stackFlags[1][index]) {
+        parts.opacities[index] = 1;
+        stackFlags[1][index] = 1;
+      }
+      applyEntry(entry, parts.opacities, index, 0, 1);
+      if (entry.releasing && entry.fade <= 0) this._parts.delete(index);
+    });
+  }
+
+  /**
+   * Applies the overrides again to values changed since update, such as
+   * physics outputs and the parts a pose shows and hides.
+   */
+  public reapply() {
+    const { parameters, parts } = this._target;
+
+    this._parameters.forEach((entry, index) => {
+      if (parameters.values[index] === entry.applied) return;
+      applyEntry(
+        entry,
+        parameters.values,
+        index,
+        parameters.minimumValues[index],
+        parameters.maximumValues[index]
+      );
+    });
+
+    this._parts.forEach((entry, index) => {
+      if (parts.opacities[index] === entry.applied) return;
+      applyEntry(entry, parts.opacities, index, 0, 1);
+    });
+  }
+
+  private _set(
+    entries: Map<number, OverrideEntry>,
+    index: number,
+    value: number,
+    minimum: number,
+    maximum: number,
+    { blend = "override", weight = 1, fadeDuration = 0 }: OverrideOptions = {}
+  ) {
+    const entry = entries.get(index);
+    entries.set(index, {
+      value:
+        blend === "override"
+          ? Math.min(Math.max(value, minimum), maximum)
+          : value,
+      blend: builtinAnimationBlenders[blend],
+      weight: Math.min(Math.max(weight, 0), 1),
+      // Keep tweening from where a running fade is, e.g. while dragging.
+      fade: entry ? entry.fade : 0,
+      fadeDuration,
+      releasing: false,
+      applied: NaN,
+    });
+  }
+
+  private _release(
+    entries: Map<number, OverrideEntry>,
+    index: number,
+    fadeDuration: number
+  ) {
+    const entry = entries.get(index);
+    if (!entry) return;
+    // Released at once, the next update still writes what the animations
+    // leave there before dropping it, as nothing else may write it again.
+    entry.releasing = true;
+    entry.fadeDuration = fadeDuration;
+  }
+
+  private _getParameterIndex(id: string) {
+    const index = this._target.parameters.ids.indexOf(id);
+    if (index === -1) throw new Error(`unknown parameter: ${id}`);
+    return index;
+  }
+
+  private _getPartIndex(id: string) {
+    const index = this._target.parts.ids.indexOf(id);
+    if (index === -1) throw new Error(`unknown part: ${id}`);
+    return index;
+  }
+}
@@ -0,0 +1,214 @@
+import {
+  formatDiagnostics,
+  parseLive2DConfig,
+  parseMotion3Json,
+  ParseError,
+} from "./parser";
+
+const createMotion3Json = (
+  curves: unknown[],
+  meta: Record<string, unknown> = {}
+) => ({
+  Version: 3,
+  Meta: {
+    Duration: 1,
+    Fps: 30,
+    Loop: false,
+    AreBeziersRestricted: true,
+    CurveCount: curves.length,
+    TotalSegmentCount: 1,
+    TotalPointCount: 2,
+    UserDataCount: 0,
+    TotalUserDataSize: 0,
+    ...meta,
+  },
+  Curves: curves,
+  UserData: [],
+});
+
+const linearCurve = {
+  Target: "Parameter",
+  Id: "ParamAngleX",
+  Segments: [0, 0, 0, 1, 30],
+};
+
+describe("parseMotion3Json", () => {
+  test("accepts a consistent motion without diagnostics", () => {
+    const { value, diagnostics } = parseMotion3Json(
+      createMotion3Json([linearCurve]),
+      { mode: "strict" }
+    );
+    expect(diagnostics).toEqual([]);
+    expect(value.Curves).toHaveLength(1);
+    expect(value.Meta.TotalPointCount).toBe(2);
+  });
+
+  test("points at the curve and segment of a problem", () => {
+    const { value, diagnostics } = parseMotion3Json(
+      createMotion3Json([
+        linearCurve,
+        // A bezier, then a segment of type 7.
+        {
+          Target: "Parameter",
+          Id: "ParamAngleY",
+          Segments: [0, 0, 1, 0.3, 0, 0.6, 1, 1, 1, 7, 2, 1],
+        },
+      ])
+    );
+    expect(value.Curves.map(({ Id }) => Id)).toEqual(["ParamAngleX"]);
+    expect(diagnostics).toContainEqual({
+      severity: "error",
+      path: "Curves[1](ParamAngleY).Segments[9]",
+      message: "unknown type 7 of segment 1",
+    });
+  });
+
+  test("reports a segment that is cut off", () => {
+    const { diagnostics } = parseMotion3Json(
+      createMotion3Json([{ ...linearCurve, Segments: [0, 0, 1, 0.3, 0] }])
+    );
+    expect(diagnostics).toContainEqual({
+      severity: "error",
+      path: "Curves[0](ParamAngleX).Segments[2]",
+      message: "segment 0 is cut off, expected 6 values",
+    });
+  });
+
+  test("warns when the Meta counts do not match the curves", () => {
+    const { value, diagnostics } = parseMotion3Json(
+      createMotion3Json([linearCurve], {
+        TotalSegmentCount: 3,
+        TotalPointCount: 5,
+      })
+    );
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        path: "Meta.TotalSegmentCount",
+        message: "says 3 but the file has 1",
+      },
+      {
+        severity: "warning",
+        path: "Meta.TotalPointCount",
+        message: "says 5 but the file has 2",
+      },
+    ]);
+    // The counts of what was parsed.
+    expect(value.Meta.TotalSegmentCount).toBe(1);
+    expect(value.Meta.TotalPointCount).toBe(2);
+  });
+
+  test("throws in strict mode what lenient mode warns about and repairs", () => {
+    const json = createMotion3Json(
+      [
+        linearCurve,
+        { Target: "Parameter", Id: "ParamAngleZ", Segments: [0, 0, 5] },
+      ],
+      { Fps: 0, TotalSegmentCount: 1 }
+    );
+
+    const { value, diagnostics } = parseMotion3Json(json);
+    expect(diagnostics.map(({ severity, path }) => [severity, path])).toEqual([
+      ["warning", "Meta.Fps"],
+      ["error", "Curves[1](ParamAngleZ).Segments[2]"],
+    ]);
+    expect(value.Meta.Fps).toBe(30);
+    expect(value.Meta.CurveCount).toBe(1);
+
+    expect(() => parseMotion3Json(json, { mode: "strict" })).toThrow(
+      ParseError
+    );
+    try {
+      parseMotion3Json(json, { mode: "strict" });
+    } catch (e) {
+      expect((e as ParseError).diagnostics).toEqual(diagnostics);
+    }
+  });
+
+  test("fails in either mode when nothing usable is left", () => {
+    expect(() =>
+      parseMotion3Json(createMotion3Json([], { Duration: -1 }))
+    ).toThrow("Meta.Duration: expected a non-negative number, got -1");
+    expect(() => parseMotion3Json([])).toThrow(ParseError);
+  });
+
+  test("formats diagnostics a line each", () => {
+    const { diagnostics } = parseMotion3Json(
+      createMotion3Json([linearCurve], { Fps: "30" })
+    );
+    expect(formatDiagnostics("motion3.json (idle)", diagnostics)).toBe(
+      "motion3.json (idle) warning: Meta.Fps: expected a positive number, got 30"
+    );
+  });
+});
+
+describe("parseLive2DConfig", () => {
+  test("accepts a model3.json path with the settings", () => {
+    const { value, diagnostics } = parseLive2DConfig({
+      model: "model.model3.json",
+      lookAt: "page",
+      retries: 2,
+      layout: { fit: "cover", anchor: { x: 0.5, y: 1 } },
+    });
+    expect(diagnostics).toEqual([]);
+    expect(value).toMatchObject({
+      model: "model.model3.json",
+      lookAt: "page",
+      retries: 2,
+      layout: { fit: "cover", anchor: { x: 0.5, y: 1 } },
+    });
+  });
+
+  test("drops invalid settings with a warning", () => {
+    const { value, diagnostics } = parseLive2DConfig({
+      model: "model.model3.json",
+      lookAt: "window",
+      retries: -1,
+      layout: { fit: "stretch", offset: { x: 1 } },
+    });
+    expect(diagnostics.map(({ path }) => path)).toEqual([
+      "lookAt",
+      "retries",
+      "layout.fit",
+      "layout.offset",
+    ]);
+    expect(value.lookAt).toBeUndefined();
+    expect(value.retries).toBeUndefined();
+    expect(value.layout).toEqual({});
+  });
+
+  test("throws for invalid settings with strict", () => {
+    expect(() =>
+      parseLive2DConfig({ model: "model.model3.json", lookAt: 1, strict: true })
+    ).toThrow(ParseError);
+    expect(() =>
+      parseLive2DConfig(
+        { model: "model.model3.json", lookAt: 1 },
+        { mode: "strict" }
+      )
+    ).toThrow(ParseError);
+  });
+
+  test("needs either model or moc, texture and motions", () => {
+    expect(
+      parseLive2DConfig({
+        moc: "model.moc3",
+        texture: ["texture_00.png"],
+        motions: { idle: "idle.motion3.json" },
+      }).diagnostics
+    ).toEqual([]);
+
+    try {
+      parseLive2DConfig({ moc: "model.moc3", texture: ["", 1] });
+      throw new Error("expected a ParseError");
+    } catch (e) {
+      expect(e).toBeInstanceOf(ParseError);
+      expect((e as ParseError).diagnostics.map(({ path }) => path)).toEqual([
+        "texture[0]",
+        "texture[1]",
+        "motions",
+        "$",
+      ]);
+    }
+  });
+});
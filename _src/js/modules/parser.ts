@@ -0,0 +1,515 @@
+import { LayoutOptions } from "./layout";
+
+/**
+ * Parsers for input that comes from outside the bundle. Problems are
+ * collected as diagnostics instead of surfacing later as a crash:
+ *
+ * - strict: any diagnostic fails the parse with a ParseError
+ * - lenient: broken pieces (e.g. a curve) are dropped with an error
+ *   diagnostic, inconsistencies only warn, and the parse fails only when
+ *   nothing usable is left
+ */
+export type ParseMode = "strict" | "lenient";
+
+export type Diagnostic = {
+  severity: "error" | "warning";
+  /** Where in the input, e.g. `Curves[3].Segments[12]`. */
+  path: string;
+  message: string;
+};
+
+export type ParseResult<T> = { value: T; diagnostics: Diagnostic[] };
+
+export class ParseError extends Error {
+  constructor(public source: string, public diagnostics: Diagnostic[]) {
+    super(
+      [
+        `invalid ${source}:`,
+        ...diagnostics.map(({ path, message }) => `  ${path}: ${message}`),
+      ].join("\n")
+    );
+    this.name = "ParseError";
+  }
+}
+
+export const formatDiagnostics = (source: string, diagnostics: Diagnostic[]) =>
+  diagnostics
+    .map(({ severity, path, message }) => {
+      return `${source} ${severity}: ${path}: ${message}`;
+    })
+    .join("\n");
+
+/** Thrown inside a parser when the input cannot be used at all. */
+class FatalParseError extends Error {}
+
+class DiagnosticCollector {
+  public diagnostics: Diagnostic[] = [];
+
+  constructor(private _source: string, private _mode: ParseMode) {}
+
+  public error(path: string, message: string) {
+    this.diagnostics.push({ severity: "error", path, message });
+  }
+
+  public warning(path: string, message: string) {
+    this.diagnostics.push({ severity: "warning", path, message });
+  }
+
+  public fatal(path: string, message: string): never {
+    this.error(path, message);
+    throw new FatalParseError();
+  }
+
+  /** Wraps up a parse, throwing according to the mode. */
+  public result<T>(parse: () => T): ParseResult<T> {
+    let value: T;
+    try {
+      value = parse();
+    } catch (e) {
+      if (!(e instanceof FatalParseError)) throw e;
+      throw new ParseError(this._source, this.diagnostics);
+    }
+    if (this._mode === "strict" && this.diagnostics.length) {
+      throw new ParseError(this._source, this.diagnostics);
+    }
+    return { value, diagnostics: this.diagnostics };
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export type Motion3Curve = {
+  Target: "Model" | "Parameter" | "PartOpacity";
+  Id: string;
+  FadeInTime?: number;
+  FadeOutTime?: number;
+  Segments: number[];
+};
+
+export type Motion3Json = {
+  Version: number;
+  Meta: {
+    Duration: number;
+    Fps: number;
+    Loop: boolean;
+    /** Whether a looping motion fades in again each time it wraps around. */
+    LoopFadeIn: boolean;
+    /** Whether Bézier handles stay within their segment in time. */
+    AreBeziersRestricted: boolean;
+    CurveCount: number;
+    TotalSegmentCount: number;
+    TotalPointCount: number;
+    UserDataCount: number;
+    TotalUserDataSize: number;
+    FadeInTime?: number;
+    FadeOutTime?: number;
+  };
+  Curves: Motion3Curve[];
+  UserData: { Time: number; Value: string }[];
+};
+
+const curveTargets: Motion3Curve["Target"][] = [
+  "Model",
+  "Parameter",
+  "PartOpacity",
+];
+
+/** Values following the type id of each segment type: the points. */
+const segmentValueCounts: Record<number, number> = {
+  0: 2, // linear
+  1: 6, // bezier
+  2: 2, // stepped
+  3: 2, // inverse stepped
+};
+
+const parseFadeTime = (
+  collector: DiagnosticCollector,
+  path: string,
+  value: unknown
+) => {
+  if (value === undefined) return undefined;
+  if (isNumber(value) && value >= 0) return value;
+  collector.warning(path, `expected a non-negative number, got ${value}`);
+  return undefined;
+};
+
+/**
+ * Walks the flat segment array of a curve. Returns the segment and point
+ * counts, or null when the curve cannot be evaluated.
+ */
+const parseSegments = (
+  collector: DiagnosticCollector,
+  path: string,
+  segments: number[]
+) => {
+  if (segments.length < 2) {
+    collector.error(path, "expected at least the first point");
+    return null;
+  }
+
+  let segmentCount = 0;
+  let pointCount = 1;
+  let lastTime = segments[0];
+  for (let i = 2; i < segments.length; ) {
+    const type = segments[i];
+    const valueCount = segmentValueCounts[type];
+    if (valueCount === undefined) {
+      collector.error(
+        `${path}[${i}]`,
+        `unknown type ${type} of segment ${segmentCount}`
+      );
+      return null;
+    }
+    if (i + valueCount >= segments.length) {
+      collector.error(
+        `${path}[${i}]`,
+        `segment ${segmentCount} is cut off, expected ${valueCount} values`
+      );
+      return null;
+    }
+
+    for (let v = 1; v < valueCount; v += 2) {
+      const time = segments[i + v];
+      if (time < lastTime) {
+        collector.warning(
+          `${path}[${i + v}]`,
+          `time ${time} of segment ${segmentCount} goes back from ${lastTime}`
+        );
+      }
+      lastTime = time;
+    }
+
+    i += valueCount + 1;
+    segmentCount += 1;
+    pointCount += valueCount / 2;
+  }
+  return { segmentCount, pointCount };
+};
+
+export const parseMotion3Json = (
+  json: unknown,
+  { mode = "lenient" }: { mode?: ParseMode } = {}
+): ParseResult<Motion3Json> => {
+  const collector: DiagnosticCollector = new DiagnosticCollector(
+    "motion3.json",
+    mode
+  );
+
+  return collector.result(() => {
+    if (!isRecord(json)) collector.fatal("$", "expected an object");
+
+    const meta = json["Meta"];
+    if (!isRecord(meta)) collector.fatal("Meta", "expected an object");
+
+    const duration = meta["Duration"];
+    if (!isNumber(duration) || duration < 0) {
+      collector.fatal(
+        "Meta.Duration",
+        `expected a non-negative number, got ${duration}`
+      );
+    }
+    let fps = 30;
+    if (isNumber(meta["Fps"]) && meta["Fps"] > 0) {
+      fps = meta["Fps"];
+    } else {
+      collector.warning(
+        "Meta.Fps",
+        `expected a positive number, got ${meta["Fps"]}`
+      );
+    }
+    let loop = false;
+    if (typeof meta["Loop"] === "boolean") {
+      loop = meta["Loop"];
+    } else if (meta["Loop"] !== undefined) {
+      collector.warning("Meta.Loop", `expected a boolean, got ${meta["Loop"]}`);
+    }
+    let loopFadeIn = false;
+    if (typeof meta["LoopFadeIn"] === "boolean") {
+      loopFadeIn = meta["LoopFadeIn"];
+    } else if (meta["LoopFadeIn"] !== undefined) {
+      collector.warning(
+        "Meta.LoopFadeIn",
+        `expected a boolean, got ${meta["LoopFadeIn"]}`
+      );
+    }
+    const areBeziersRestricted = meta["AreBeziersRestricted"] === true;
+
+    const rawCurves = json["Curves"];
+    if (!Array.isArray(rawCurves))
+      collector.fatal("Curves", "expected an array");
+
+    let totalSegmentCount = 0;
+    let totalPointCount = 0;
+    const curves: Motion3Curve[] = [];
+    rawCurves.forEach((curve: unknown, i: number) => {
+      const path = `Curves[${i}]`;
+      if (!isRecord(curve)) {
+        collector.error(path, "expected an object");
+        return;
+      }
+
+      const id = curve["Id"];
+      if (typeof id !== "string" || !id) {
+        collector.error(`${path}.Id`, `expected a non-empty string, got ${id}`);
+        return;
+      }
+      const curvePath = `${path}(${id})`;
+      const target = curve["Target"];
+      if (!curveTargets.some((value) => value === target)) {
+        collector.error(
+          `${curvePath}.Target`,
+          `expected one of ${curveTargets.join(", ")}, got ${target}`
+        );
+        return;
+      }
+      const segments = curve["Segments"];
+      if (!Array.isArray(segments) || !segments.every(isNumber)) {
+        collector.error(
+          `${curvePath}.Segments`,
+          "expected an array of numbers"
+        );
+        return;
+      }
+      const counts = parseSegments(
+        collector,
+        `${curvePath}.Segments`,
+        segments
+      );
+      if (!counts) return;
+
+      totalSegmentCount += counts.segmentCount;
+      totalPointCount += counts.pointCount;
+      curves.push({
+        Target: target as Motion3Curve["Target"],
+        Id: id,
+        FadeInTime: parseFadeTime(
+          collector,
+          `${curvePath}.FadeInTime`,
+          curve["FadeInTime"]
+        ),
+        FadeOutTime: parseFadeTime(
+          collector,
+          `${curvePath}.FadeOutTime`,
+          curve["FadeOutTime"]
+        ),
+        Segments: segments,
+      });
+    });
+
+    const rawUserData = json["UserData"] ?? [];
+    const userData: Motion3Json["UserData"] = [];
+    if (!Array.isArray(rawUserData)) {
+      collector.warning("UserData", "expected an array");
+    } else {
+      rawUserData.forEach((item: unknown, i) => {
+        if (
+          !isRecord(item) ||
+          !isNumber(item["Time"]) ||
+          typeof item["Value"] !== "string"
+        ) {
+          collector.warning(`UserData[${i}]`, "expected { Time, Value }");
+          return;
+        }
+        userData.push({ Time: item["Time"], Value: item["Value"] });
+      });
+    }
+
+    const checkCount = (name: string, actual: number) => {
+      const expected = meta[name];
+      if (expected === undefined) return;
+      if (expected !== actual) {
+        collector.warning(
+          `Meta.${name}`,
+          `says ${expected} but the file has ${actual}`
+        );
+      }
+    };
+    checkCount("CurveCount", rawCurves.length);
+    checkCount("TotalSegmentCount", totalSegmentCount);
+    checkCount("TotalPointCount", totalPointCount);
+    checkCount("UserDataCount", userData.length);
+
+    return {
+      Version: isNumber(json["Version"]) ? json["Version"] : 3,
+      Meta: {
+        Duration: duration,
+        Fps: fps,
+        Loop: loop,
+        LoopFadeIn: loopFadeIn,
+        AreBeziersRestricted: areBeziersRestricted,
+        CurveCount: curves.length,
+        TotalSegmentCount: totalSegmentCount,
+        TotalPointCount: totalPointCount,
+        UserDataCount: userData.length,
+        TotalUserDataSize: userData.reduce(
+          (size, { Value }) => size + Value.length,
+          0
+        ),
+        FadeInTime: parseFadeTime(
+          collector,
+          "Meta.FadeInTime",
+          meta["FadeInTime"]
+        ),
+        FadeOutTime: parseFadeTime(
+          collector,
+          "Meta.FadeOutTime",
+          meta["FadeOutTime"]
+        ),
+      },
+      Curves: curves,
+      UserData: userData,
+    };
+  });
+};
+
+export type Live2DConfig = NonNullable<typeof window.Live2DConfig>;
+export type ValidLive2DConfig = (
+  | Required<Pick<Live2DConfig, "model">>
+  | Required<Pick<Live2DConfig, "moc" | "texture" | "motions">>
+) &
+  Pick<Live2DConfig, "lookAt" | "autoPause" | "retries" | "layout" | "strict">;
+
+const layoutFits = ["contain", "cover", "pixelsPerUnit"];
+
+const parseLayout = (collector: DiagnosticCollector, layout: unknown) => {
+  if (layout === undefined) return undefined;
+  if (!isRecord(layout)) {
+    collector.warning("layout", "expected an object");
+    return undefined;
+  }
+
+  const parsed: LayoutOptions = {};
+  const { fit, pixelsPerUnit, anchor, offset } = layout;
+  if (fit !== undefined) {
+    if (layoutFits.includes(fit as string)) {
+      parsed.fit = fit as LayoutOptions["fit"];
+    } else {
+      collector.warning(
+        "layout.fit",
+        `expected one of ${layoutFits.join(", ")}, got ${fit}`
+      );
+    }
+  }
+  if (pixelsPerUnit !== undefined) {
+    if (isNumber(pixelsPerUnit) && pixelsPerUnit > 0) {
+      parsed.pixelsPerUnit = pixelsPerUnit;
+    } else {
+      collector.warning(
+        "layout.pixelsPerUnit",
+        `expected a positive number, got ${pixelsPerUnit}`
+      );
+    }
+  }
+  (
+    [
+      ["anchor", anchor],
+      ["offset", offset],
+    ] as const
+  ).forEach(([name, point]) => {
+    if (point === undefined) return;
+    if (isRecord(point) && isNumber(point.x) && isNumber(point.y)) {
+      parsed[name] = { x: point.x, y: point.y };
+    } else {
+      collector.warning(`layout.${name}`, "expected { x, y }");
+    }
+  });
+  return parsed;
+};
+
+/**
+ * Either `model` (a model3.json) or the hand-listed `moc`, `texture` and
+ * `motions` have to be usable; the optional settings fall back to their
+ * defaults with a warning.
+ */
+export const parseLive2DConfig = (
+  config: unknown,
+  { mode }: { mode?: ParseMode } = {}
+): ParseResult<ValidLive2DConfig> => {
+  const strict = isRecord(config) && config["strict"] === true;
+  const collector: DiagnosticCollector = new DiagnosticCollector(
+    "Live2DConfig",
+    mode ?? (strict ? "strict" : "lenient")
+  );
+
+  return collector.result(() => {
+    if (!isRecord(config)) collector.fatal("$", "expected an object");
+
+    let lookAt = config["lookAt"] as Live2DConfig["lookAt"];
+    if (![undefined, "container", "page", false].includes(lookAt)) {
+      collector.warning(
+        "lookAt",
+        `expected "container", "page" or false, got ${lookAt}`
+      );
+      lookAt = undefined;
+    }
+    let autoPause = config["autoPause"] as Live2DConfig["autoPause"];
+    if (autoPause !== undefined && typeof autoPause !== "boolean") {
+      collector.warning("autoPause", `expected a boolean, got ${autoPause}`);
+      autoPause = undefined;
+    }
+    let retries = config["retries"] as Live2DConfig["retries"];
+    if (
+      retries !== undefined &&
+      !(Number.isInteger(retries) && (retries as number) >= 0)
+    ) {
+      collector.warning(
+        "retries",
+        `expected a non-negative integer, got ${retries}`
+      );
+      retries = undefined;
+    }
+    const options = {
+      lookAt,
+      autoPause,
+      retries,
+      layout: parseLayout(collector, config["layout"]),
+      strict,
+    };
+
+    const { model, moc, texture, motions } = config;
+    if (model !== undefined) {
+      if (typeof model !== "string" || !model) {
+        collector.fatal("model", `expected a non-empty string, got ${model}`);
+      }
+      return { model, ...options };
+    }
+
+    if (typeof moc !== "string" || !moc) {
+      collector.error("moc", `expected a non-empty string, got ${moc}`);
+    }
+    const textures = Array.isArray(texture) ? texture : [texture];
+    if (!textures.length) collector.error("texture", "expected a path");
+    textures.forEach((path, i) => {
+      if (typeof path === "string" && path) return;
+      collector.error(
+        Array.isArray(texture) ? `texture[${i}]` : "texture",
+        `expected a non-empty string, got ${path}`
+      );
+    });
+    if (!isRecord(motions) || !Object.keys(motions).length) {
+      collector.error("motions", "expected an object of motion paths");
+    } else {
+      Object.entries(motions).forEach(([name, path]) => {
+        if (typeof path === "string" && path) return;
+        collector.error(
+          `motions.${name}`,
+          `expected a non-empty string, got ${path}`
+        );
+      });
+    }
+    if (collector.diagnostics.some(({ severity }) => severity === "error")) {
+      collector.fatal("$", "expected either model or moc, texture and motions");
+    }
+
+    return {
+      moc: moc as string,
+      texture: texture as string | string[],
+      motions: motions as Record<string, string>,
+      ...options,
+    };
+  });
+};
@@ -0,0 +1,462 @@
+/**
+ * physics3.json is evaluated the same way as the official Cubism framework:
+ * each setting is a chain of pendulum particles whose root is moved by the
+ * input parameters, and whose joint angles / translations drive the outputs.
+ */
+
+type Vector2 = { x: number; y: number };
+type Vector2Json = { X: number; Y: number };
+
+const vector = {
+  add: (a: Vector2, b: Vector2): Vector2 => ({ x: a.x + b.x, y: a.y + b.y }),
+  sub: (a: Vector2, b: Vector2): Vector2 => ({ x: a.x - b.x, y: a.y - b.y }),
+  scale: (a: Vector2, s: number): Vector2 => ({ x: a.x * s, y: a.y * s }),
+  normalize: (a: Vector2): Vector2 => {
+    const length = Math.sqrt(a.x * a.x + a.y * a.y);
+    return length > 0 ? { x: a.x / length, y: a.y / length } : { x: 0, y: 0 };
+  },
+  rotate: (a: Vector2, radian: number): Vector2 => ({
+    x: a.x * Math.cos(radian) - a.y * Math.sin(radian),
+    y: a.x * Math.sin(radian) + a.y * Math.cos(radian),
+  }),
+};
+
+const degreesToRadian = (degrees: number) => (degrees / 180) * Math.PI;
+
+const directionToRadian = (from: Vector2, to: Vector2) => {
+  let radian = Math.atan2(to.y, to.x) - Math.atan2(from.y, from.x);
+  while (radian < -Math.PI) radian += Math.PI * 2;
+  while (radian > Math.PI) radian -= Math.PI * 2;
+  return radian;
+};
+
+const AIR_RESISTANCE = 5;
+const MAXIMUM_WEIGHT = 100;
+const MOVEMENT_THRESHOLD = 0.001;
+const MAX_DELTA_TIME = 5;
+
+type PhysicsSourceType = "X" | "Y" | "Angle";
+
+type Physics3Source = { Target: string; Id: string };
+
+type Physics3Normalization = {
+  Minimum: number;
+  Maximum: number;
+  Default: number;
+};
+
+export type Physics3Json = {
+  Version: number;
+  Meta: {
+    Fps?: number;
+    EffectiveForces?: {
+      Gravity: Vector2Json;
+      Wind: Vector2Json;
+    };
+  };
+  PhysicsSettings: {
+    Id: string;
+    Input: {
+      Source: Physics3Source;
+      Weight: number;
+      Type: PhysicsSourceType;
+      Reflect: boolean;
+    }[];
+    Output: {
+      Destination: Physics3Source;
+      VertexIndex: number;
+      Scale: number;
+      Weight: number;
+      Type: PhysicsSourceType;
+      Reflect: boolean;
+    }[];
+    Vertices: {
+      Position: Vector2Json;
+      Mobility: number;
+      Delay: number;
+      Acceleration: number;
+      Radius: number;
+    }[];
+    Normalization: {
+      Position: Physics3Normalization;
+      Angle: Physics3Normalization;
+    };
+  }[];
+};
+
+type PhysicsNormalization = {
+  minimum: number;
+  maximum: number;
+  default: number;
+};
+
+type PhysicsInput = {
+  parameterIndex: number;
+  type: PhysicsSourceType;
+  weight: number;
+  reflect: boolean;
+};
+
+type PhysicsOutput = {
+  parameterIndex: number;
+  type: PhysicsSourceType;
+  vertexIndex: number;
+  scale: number;
+  weight: number;
+  reflect: boolean;
+};
+
+type PhysicsParticle = {
+  mobility: number;
+  delay: number;
+  acceleration: number;
+  radius: number;
+  position: Vector2;
+  lastPosition: Vector2;
+  lastGravity: Vector2;
+  velocity: Vector2;
+};
+
+type PhysicsSetting = {
+  inputs: PhysicsInput[];
+  outputs: PhysicsOutput[];
+  particles: PhysicsParticle[];
+  normalizationPosition: PhysicsNormalization;
+  normalizationAngle: PhysicsNormalization;
+};
+
+/**
+ * Maps a parameter value onto the normalization range of a physics setting.
+ * The parameter range is split at its midpoint, like the official framework.
+ */
+const normalizeParameterValue = (
+  value: number,
+  parameterMinimum: number,
+  parameterMaximum: number,
+  normalization: PhysicsNormalization,
+  reflect: boolean
+) => {
+  const maxValue = Math.max(parameterMaximum, parameterMinimum);
+  const minValue = Math.min(parameterMaximum, parameterMinimum);
+  const minNormValue = Math.min(normalization.minimum, normalization.maximum);
+  const maxNormValue = Math.max(normalization.minimum, normalization.maximum);
+  const middleValue = minValue + (maxValue - minValue) / 2;
+  const paramValue =
+    Math.min(Math.max(value, minValue), maxValue) - middleValue;
+
+  let result = normalization.default;
+  if (paramValue > 0) {
+    const length = maxValue - middleValue;
+    if (length !== 0) {
+      result += paramValue * ((maxNormValue - normalization.default) / length);
+    }
+  } else if (paramValue < 0) {
+    const length = minValue - middleValue;
+    if (length !== 0) {
+      result += paramValue * ((minNormValue - normalization.default) / length);
+    }
+  }
+
+  return reflect ? result : -result;
+};
+
+export class Physics {
+  private _target: Live2DCubismCore.Model;
+  private _settings: PhysicsSetting[];
+  private _fixedDeltaTime: number | null;
+  private _remainTime = 0;
+  private _currentOutputs: number[][];
+  private _previousOutputs: number[][];
+
+  public gravity: Vector2;
+  public wind: Vector2;
+
+  get fixedDeltaTime() {
+    return this._fixedDeltaTime;
+  }
+
+  /**
+   * Step length in seconds, or null to simulate once per update with the
+   * frame delta. Defaults to 1 / Meta.Fps when the file declares it.
+   */
+  set fixedDeltaTime(value: number | null) {
+    this._fixedDeltaTime = value && value > 0 ? value : null;
+    this._remainTime = 0;
+  }
+
+  constructor(
+    target: Live2DCubismCore.Model,
+    physics3Json: Physics3Json,
+    { fixedDeltaTime }: { fixedDeltaTime?: number | null } = {}
+  ) {
+    this._target = target;
+
+    const { Meta, PhysicsSettings } = physics3Json;
+    this.gravity = {
+      x: Meta.EffectiveForces?.Gravity.X ?? 0,
+      y: Meta.EffectiveForces?.Gravity.Y ?? -1,
+    };
+    this.wind = {
+      x: Meta.EffectiveForces?.Wind.X ?? 0,
+      y: Meta.EffectiveForces?.Wind.Y ?? 0,
+    };
+    this._fixedDeltaTime = null;
+    this.fixedDeltaTime =
+      fixedDeltaTime !== undefined
+        ? fixedDeltaTime
+        : Meta.Fps && Meta.Fps > 0
+        ? 1 / Meta.Fps
+        : null;
+
+    const parameterIndexOf = ({ Target, Id }: Physics3Source) =>
+      Target === "Parameter" ? target.parameters.ids.indexOf(Id) : -1;
+    const toNormalization = ({
+      Minimum,
+      Maximum,
+      Default,
+    }: Physics3Normalization): PhysicsNormalization => ({
+      minimum: Minimum,
+      maximum: Maximum,
+      default: Default,
+    });
+
+    this._settings = PhysicsSettings.map((setting) => ({
+      inputs: setting.Input.map((input) => ({
+        parameterIndex: parameterIndexOf(input.Source),
+        type: input.Type,
+        weight: input.Weight / MAXIMUM_WEIGHT,
+        reflect: input.Reflect,
+      })),
+      outputs: setting.Output.map((output) => ({
+        parameterIndex: parameterIndexOf(output.Destination),
+        type: output.Type,
+        vertexIndex: output.VertexIndex,
+        scale: output.Scale,
+        weight: output.Weight / MAXIMUM_WEIGHT,
+        reflect: output.Reflect,
+      })),
+      particles: setting.Vertices.map((vertex) => ({
+        mobility: vertex.Mobility,
+        delay: vertex.Delay,
+        acceleration: vertex.Acceleration,
+        radius: vertex.Radius,
+        position: { x: 0, y: 0 },
+        lastPosition: { x: 0, y: 0 },
+        lastGravity: { x: 0, y: 1 },
+        velocity: { x: 0, y: 0 },
+      })),
+      normalizationPosition: toNormalization(setting.Normalization.Position),
+      normalizationAngle: toNormalization(setting.Normalization.Angle),
+    }));
+
+    this._currentOutputs = this._settings.map((setting) =>
+      setting.outputs.map(() => 0)
+    );
+    this._previousOutputs = this._currentOutputs.map((outputs) => [...outputs]);
+    this.reset();
+  }
+
+  /** Puts every pendulum back to rest, hanging straight down. */
+  public reset() {
+    this._settings.forEach((setting) => {
+      setting.particles.forEach((particle, i) => {
+        const position =
+          i === 0
+            ? { x: 0, y: 0 }
+            : vector.add(setting.particles[i - 1].position, {
+                x: 0,
+                y: particle.radius,
+              });
+        particle.position = position;
+        particle.lastPosition = { ...position };
+        particle.lastGravity = { x: 0, y: 1 };
+        particle.velocity = { x: 0, y: 0 };
+      });
+    });
+    this._currentOutputs.forEach((outputs) => outputs.fill(0));
+    this._previousOutputs.forEach((outputs) => outputs.fill(0));
+    this._remainTime = 0;
+  }
+
+  /**
+   * Reads the input parameters, advances the simulation and writes the output
+   * parameters. Call after the animator has evaluated the current frame.
+   */
+  public updateAndEvaluate(deltaTime: number) {
+    if (deltaTime <= 0) return;
+
+    if (!this._fixedDeltaTime) {
+      this._step(deltaTime);
+      this._apply(1);
+      return;
+    }
+
+    this._remainTime += deltaTime;
+    if (this._remainTime > MAX_DELTA_TIME) this._remainTime = 0;
+
+    while (this._remainTime >= this._fixedDeltaTime) {
+      this._step(this._fixedDeltaTime);
+      this._remainTime -= this._fixedDeltaTime;
+    }
+    this._apply(this._remainTime / this._fixedDeltaTime);
+  }
+
+  private _step(deltaTime: number) {
+    const { parameters } = this._target;
+
+    this._settings.forEach((setting, settingIndex) => {
+      let totalAngle = 0;
+      let totalTranslation: Vector2 = { x: 0, y: 0 };
+
+      setting.inputs.forEach((input) => {
+        if (input.parameterIndex === -1) return;
+        const i = input.parameterIndex;
+        const normalization =
+          input.type === "Angle"
+            ? setting.normalizationAngle
+            : setting.normalizationPosition;
+        const value =
+          normalizeParameterValue(
+            parameters.values[i],
+            parameters.minimumValues[i],
+            parameters.maximumValues[i],
+            normalization,
+            input.reflect
+          ) * input.weight;
+
+        if (input.type === "X") totalTranslation.x += value;
+        else if (input.type === "Y") totalTranslation.y += value;
+        else totalAngle += value;
+      });
+
+      totalTranslation = vector.rotate(
+        totalTranslation,
+        degreesToRadian(-totalAngle)
+      );
+
+      this._updateParticles(
+        setting.particles,
+        totalTranslation,
+        totalAngle,
+        MOVEMENT_THRESHOLD * setting.normalizationPosition.maximum,
+        deltaTime
+      );
+
+      const previousOutputs = this._previousOutputs[settingIndex];
+      const currentOutputs = this._currentOutputs[settingIndex];
+      setting.outputs.forEach((output, outputIndex) => {
+        previousOutputs[outputIndex] = currentOutputs[outputIndex];
+
+        const { particles } = setting;
+        const i = output.vertexIndex;
+        if (output.parameterIndex === -1) return;
+        if (i < 1 || i >= particles.length) return;
+
+        const translation = vector.sub(
+          particles[i].position,
+          particles[i - 1].position
+        );
+        let value: number;
+        if (output.type === "X") {
+          value = translation.x;
+        } else if (output.type === "Y") {
+          value = translation.y;
+        } else {
+          const parentGravity =
+            i >= 2
+              ? vector.sub(particles[i - 1].position, particles[i - 2].position)
+              : vector.scale(this.gravity, -1);
+          value = directionToRadian(parentGravity, translation);
+        }
+        if (output.reflect) value *= -1;
+
+        currentOutputs[outputIndex] = Math.min(
+          Math.max(
+            value * output.scale,
+            parameters.minimumValues[output.parameterIndex]
+          ),
+          parameters.maximumValues[output.parameterIndex]
+        );
+      });
+    });
+  }
+
+  private _updateParticles(
+    particles: PhysicsParticle[],
+    totalTranslation: Vector2,
+    totalAngle: number,
+    threshold: number,
+    deltaTime: number
+  ) {
+    particles[0].position = { ...totalTranslation };
+
+    const totalRadian = degreesToRadian(totalAngle);
+    const currentGravity = vector.normalize({
+      x: Math.sin(totalRadian),
+      y: Math.cos(totalRadian),
+    });
+
+    for (let i = 1; i < particles.length; i++) {
+      const particle = particles[i];
+      const parent = particles[i - 1];
+      const force = vector.add(
+        vector.scale(currentGravity, particle.acceleration),
+        this.wind
+      );
+      particle.lastPosition = { ...particle.position };
+
+      const delay = particle.delay * deltaTime * 30;
+      const radian =
+        directionToRadian(particle.lastGravity, currentGravity) /
+        AIR_RESISTANCE;
+      const direction = vector.rotate(
+        vector.sub(particle.position, parent.position),
+        radian
+      );
+
+      particle.position = vector.add(
+        vector.add(parent.position, direction),
+        vector.add(
+          vector.scale(particle.velocity, delay),
+          vector.scale(force, delay * delay)
+        )
+      );
+      particle.position = vector.add(
+        parent.position,
+        vector.scale(
+          vector.normalize(vector.sub(particle.position, parent.position)),
+          particle.radius
+        )
+      );
+      if (Math.abs(particle.position.x) < threshold) particle.position.x = 0;
+
+      if (delay !== 0) {
+        particle.velocity = vector.scale(
+          vector.sub(particle.position, particle.lastPosition),
+          particle.mobility / delay
+        );
+      }
+      particle.lastGravity = { ...currentGravity };
+    }
+  }
+
+  private _apply(alpha: number) {
+    const { parameters } = this._target;
+
+    this._settings.forEach((setting, settingIndex) => {
+      setting.outputs.forEach((output, outputIndex) => {
+        const i = output.parameterIndex;
+        if (i === -1) return;
+
+        const value =
+          this._previousOutputs[settingIndex][outputIndex] * (1 - alpha) +
+          this._currentOutputs[settingIndex][outputIndex] * alpha;
+        parameters.values[i] =
+          output.weight >= 1
+            ? value
+            : parameters.values[i] * (1 - output.weight) +
+              value * output.weight;
+      });
+    });
+  }
+}
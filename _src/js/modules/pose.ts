@@ -0,0 +1,118 @@
+import { StackFlags } from "./animation";
+
+export type Pose3Json = {
+  Type: string;
+  FadeInTime?: number;
+  Groups: { Id: string; Link: string[] }[][];
+};
+
+const DEFAULT_FADE_TIME = 0.5;
+const EPSILON = 0.001;
+const PHI = 0.5;
+const BACK_OPACITY_THRESHOLD = 0.15;
+
+type PosePart = {
+  partIndex: number;
+  linkIndices: number[];
+  opacity: number;
+  requested: boolean;
+};
+
+/**
+ * Keeps exactly one part of each pose3.json group visible. A part counts as
+ * requested when the animation this frame keyed its opacity above zero; the
+ * first requested part of a group fades in and the others are held under it
+ * so the background never shows through mid-crossfade.
+ */
+export class Pose {
+  private _target: Live2DCubismCore.Model;
+  private _groups: PosePart[][];
+
+  public fadeInTime: number;
+
+  get groups() {
+    return this._groups;
+  }
+
+  constructor(target: Pose["_target"], pose3Json: Pose3Json) {
+    this._target = target;
+    this.fadeInTime = Math.max(pose3Json.FadeInTime ?? DEFAULT_FADE_TIME, 0);
+
+    const partIndexOf = (id: string) => target.parts.ids.indexOf(id);
+    this._groups = pose3Json.Groups.map((group) =>
+      group
+        .map((part) => ({
+          partIndex: partIndexOf(part.Id),
+          linkIndices: part.Link.map(partIndexOf).filter((i) => i !== -1),
+          opacity: 0,
+          requested: false,
+        }))
+        .filter((part) => part.partIndex !== -1)
+    ).filter((group) => group.length > 0);
+
+    this.reset();
+  }
+
+  /** Shows the first part of every group and hides the rest. */
+  public reset() {
+    this._groups.forEach((group) => {
+      group.forEach((part, i) => {
+        part.opacity = i === 0 ? 1 : 0;
+        part.requested = i === 0;
+      });
+    });
+    this._apply();
+  }
+
+  public updateAndEvaluate(deltaTime: number, stackFlags: StackFlags) {
+    const { opacities } = this._target.parts;
+    deltaTime = Math.max(deltaTime, 0);
+
+    this._groups.forEach((group) => {
+      group.forEach((part) => {
+        if (!stackFlags[1][part.partIndex]) return;
+        part.requested = opacities[part.partIndex] > EPSILON;
+      });
+
+      let visiblePart = group.find((part) => part.requested);
+      let visibleOpacity = 1;
+      if (visiblePart) {
+        visibleOpacity =
+          this.fadeInTime > 0
+            ? Math.min(visiblePart.opacity + deltaTime / this.fadeInTime, 1)
+            : 1;
+      } else {
+        visiblePart = group[0];
+      }
+
+      group.forEach((part) => {
+        if (part === visiblePart) {
+          part.opacity = visibleOpacity;
+          return;
+        }
+
+        let maxOpacity =
+          visibleOpacity < PHI
+            ? (visibleOpacity * (PHI - 1)) / PHI + 1
+            : ((1 - visibleOpacity) * PHI) / (1 - PHI);
+        const backOpacity = (1 - maxOpacity) * (1 - visibleOpacity);
+        if (backOpacity > BACK_OPACITY_THRESHOLD) {
+          maxOpacity = 1 - BACK_OPACITY_THRESHOLD / (1 - visibleOpacity);
+        }
+        part.opacity = Math.min(part.opacity, maxOpacity);
+      });
+    });
+
+    this._apply();
+  }
+
+  private _apply() {
+    const { opacities } = this._target.parts;
+    this._groups.forEach((group) => {
+      group.forEach((part) => {
+        opacities[part.partIndex] = part.opacity;
+        part.linkIndices.forEach((i) => (opacities[i] = part.opacity));
+      });
+    });
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * model3.json SPEC: https://docs.live2d.com/cubism-editor-manual/file-type-and-extension/
+ */
+
+export type Model3Motion = {
+  File: string;
+  FadeInTime?: number;
+  FadeOutTime?: number;
+  Sound?: string;
+};
+
+export type Model3Json = {
+  Version: number;
+  FileReferences: {
+    Moc: string;
+    Textures: string[];
+    Physics?: string;
+    Pose?: string;
+    UserData?: string;
+    Expressions?: { Name: string; File: string }[];
+    Motions?: Record<string, Model3Motion[]>;
+  };
+  Groups?: { Target: string; Name: string; Ids: string[] }[];
+  HitAreas?: { Id: string; Name: string }[];
+};
+
+/** userdata3.json, data the editor attaches to art meshes. */
+export type UserData3Json = {
+  Version: number;
+  Meta: { UserDataCount: number; TotalUserDataSize: number };
+  UserData: { Target: string; Id: string; Value: string }[];
+};
+
+export type ModelFilePaths = {
+  moc: string;
+  textures: string[];
+  physics: string | null;
+  pose: string | null;
+  userData: string | null;
+  expressions: Record<string, string>;
+  motions: Record<string, string>;
+  /** Voice played when the motion of the same name starts. */
+  sounds: Record<string, string>;
+};
+
+export const isModel3Json = (json: unknown): json is Model3Json => {
+  try {
+    const { FileReferences } = json as Model3Json;
+    return (
+      typeof FileReferences.Moc === "string" &&
+      Array.isArray(FileReferences.Textures) &&
+      FileReferences.Textures.every((value) => typeof value === "string")
+    );
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Motions are registered by their group name. Groups holding more than one
+ * motion get an index suffix instead, e.g. "tap_0", "tap_1".
+ */
+export const getMotionNames = (model3Json: Model3Json) => {
+  const names: { name: string; group: string; motion: Model3Motion }[] = [];
+  Object.entries(model3Json.FileReferences.Motions || {}).forEach(
+    ([group, motions]) => {
+      motions.forEach((motion, i) => {
+        const name = motions.length > 1 ? `${group}_${i}` : group;
+        names.push({ name, group, motion });
+      });
+    }
+  );
+  return names;
+};
+
+export const resolveModelFilePaths = (
+  model3Json: Model3Json,
+  model3JsonPath: string
+): ModelFilePaths => {
+  const baseUrl = new URL(model3JsonPath, document.baseURI);
+  const resolve = (file: string) => new URL(file, baseUrl).href;
+  const { FileReferences } = model3Json;
+
+  const expressions: ModelFilePaths["expressions"] = {};
+  (FileReferences.Expressions || []).forEach(({ Name, File }) => {
+    expressions[Name] = resolve(File);
+  });
+
+  const motions: ModelFilePaths["motions"] = {};
+  const sounds: ModelFilePaths["sounds"] = {};
+  getMotionNames(model3Json).forEach(({ name, motion }) => {
+    motions[name] = resolve(motion.File);
+    if (motion.Sound) sounds[name] = resolve(motion.Sound);
+  });
+
+  return {
+    moc: resolve(FileReferences.Moc),
+    textures: FileReferences.Textures.map(resolve),
+    physics: FileReferences.Physics ? resolve(FileReferences.Physics) : null,
+    pose: FileReferences.Pose ? resolve(FileReferences.Pose) : null,
+    userData: FileReferences.UserData ? resolve(FileReferences.UserData) : null,
+    expressions,
+    motions,
+    sounds,
+  };
+};
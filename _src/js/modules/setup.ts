@@ -3,167 +3,334 @@
  * PIXI EXAMPLES: https://pixijs.io/examples/#/
  */
 import * as PIXI from "pixi.js";
+import { pauseWhenHidden } from "./clock";
+import { BreathController, EyeBlinkController } from "./controller";
+import { Exp3Json } from "./expression";
+import { GazeController, trackPointer } from "./gaze";
+import { layoutModel } from "./layout";
+import { LipSyncController } from "./lipsync";
+import { LoadError, LoadProgress, ResourceLoader } from "./loader";
 import { ModelBuilder } from "./model";
+import {
+  formatDiagnostics,
+  Live2DConfig,
+  parseLive2DConfig,
+  ParseMode,
+  ValidLive2DConfig,
+} from "./parser";
+import { Physics3Json } from "./physics";
+import { Pose3Json } from "./pose";
+import {
+  getMotionNames,
+  isModel3Json,
+  Model3Json,
+  ModelFilePaths,
+  resolveModelFilePaths,
+  UserData3Json,
+} from "./settings";
 
-type ValidLive2DConfig = Required<NonNullable<typeof window.Live2DConfig>>;
-const isValidLive2DConfigType = (
-  live2DConfig: unknown
-): live2DConfig is ValidLive2DConfig => {
-  try {
-    const { moc, texture, motions } = window.Live2DConfig as ValidLive2DConfig;
-    return (
-      !!moc &&
-      !!texture &&
-      !!motions &&
-      Object.values(motions).every((value) => typeof value === "string")
-    );
-  } catch (e) {
-    return false;
-  }
+type Resources = {
+  moc: ArrayBuffer;
+  textures: PIXI.Texture[];
+  physics: Physics3Json | null;
+  pose: Pose3Json | null;
+  userData: UserData3Json | null;
+  expressions: Record<string, Exp3Json>;
 };
 
-type ResourceData = ({ option?: PIXI.ILoaderOptions } & (
-  | {
-      name: Exclude<keyof ValidLive2DConfig, "motions">;
-      path: string;
-    }
-  | {
-      name: "motions";
-      paths: ValidLive2DConfig["motions"];
-    }
-))[];
-
-type Resources = {
-  [key in Exclude<
-    keyof ValidLive2DConfig,
-    "motions"
-  >]: PIXI.LoaderResource | null;
-} & {
-  motions: Record<string, PIXI.LoaderResource | null>;
+const loadModel3Json = async (loader: ResourceLoader, path: string) => {
+  const model3Json = await loader.loadJson(path);
+  if (!isModel3Json(model3Json)) {
+    throw new LoadError(path, "not a valid model3.json");
+  }
+  return model3Json;
 };
 
-type ValidMotions = Record<string, PIXI.LoaderResource>;
-const isValidMotions = (
-  motions: Resources["motions"]
-): motions is ValidMotions => {
-  try {
-    return Object.values(motions).every((value) => !!value);
-  } catch (e) {
-    return false;
+const getModelSettings = async (
+  loader: ResourceLoader,
+  live2DConfig: ValidLive2DConfig
+): Promise<{ model3Json: Model3Json | null; filePaths: ModelFilePaths }> => {
+  if ("model" in live2DConfig) {
+    const model3Json = await loadModel3Json(loader, live2DConfig.model);
+    return {
+      model3Json,
+      filePaths: resolveModelFilePaths(model3Json, live2DConfig.model),
+    };
   }
+
+  return {
+    model3Json: null,
+    filePaths: {
+      moc: live2DConfig.moc,
+      textures: Array.isArray(live2DConfig.texture)
+        ? live2DConfig.texture
+        : [live2DConfig.texture],
+      physics: null,
+      pose: null,
+      userData: null,
+      expressions: {},
+      motions: live2DConfig.motions,
+      sounds: {},
+    },
+  };
 };
 
-const loadResources = (resourceData: ResourceData) => {
-  const loader = PIXI.Loader.shared;
+/**
+ * Loads everything the model needs to show up, all at once. Motions are left
+ * out, they load when they are first played.
+ */
+const loadResources = async (
+  loader: ResourceLoader,
+  filePaths: ModelFilePaths
+): Promise<Resources> => {
+  loader.expect([
+    filePaths.moc,
+    ...filePaths.textures,
+    ...[filePaths.physics, filePaths.pose, filePaths.userData].filter(
+      (path): path is string => !!path
+    ),
+    ...Object.values(filePaths.expressions),
+  ]);
 
-  resourceData.forEach((resourceDatum) => {
-    if (resourceDatum.name !== "motions") {
-      loader.add(resourceDatum.name, resourceDatum.path, resourceDatum.option);
-    } else {
-      Object.entries(resourceDatum.paths).forEach(
-        ([motionName, motionPath]) => {
-          loader.add(
-            `${resourceDatum.name}_${motionName}`,
-            motionPath,
-            resourceDatum.option
-          );
-        }
-      );
-    }
-  });
+  const loadOptionalJson = <T>(path: string | null) =>
+    path ? loader.loadJson<T>(path) : Promise.resolve(null);
 
-  return new Promise<Resources>((resolve, reject) => {
-    loader
-      .load((_, resources) => {
-        const returnResources: Resources = {
-          moc: null,
-          texture: null,
-          motions: {},
-        };
-
-        Object.entries(resources).forEach(([key, resource]) => {
-          const matched = key.match(/^motions_(.+)$/);
-          if (matched) {
-            returnResources.motions = {
-              ...returnResources.motions,
-              [matched[1]]: resource || null,
-            };
-          } else {
-            returnResources[
-              key as Exclude<keyof ValidLive2DConfig, "motions">
-            ] = resource || null;
-          }
-        });
-        resolve(returnResources);
-      })
-      .onError.add(reject);
-  });
+  const [moc, textures, physics, pose, userData, expressions] =
+    await Promise.all([
+      loader.loadBuffer(filePaths.moc),
+      Promise.all(filePaths.textures.map((path) => loader.loadTexture(path))),
+      loadOptionalJson<Physics3Json>(filePaths.physics),
+      loadOptionalJson<Pose3Json>(filePaths.pose),
+      loadOptionalJson<UserData3Json>(filePaths.userData),
+      Promise.all(
+        Object.entries(filePaths.expressions).map(
+          async ([name, path]) =>
+            [name, await loader.loadJson<Exp3Json>(path)] as const
+        )
+      ),
+    ]);
+  return {
+    moc,
+    textures,
+    physics,
+    pose,
+    userData,
+    expressions: Object.fromEntries(expressions),
+  };
 };
 
-const createApp = (resources: Resources, container: Element) => {
-  const { moc, texture, motions } = resources;
-  if (
-    !moc ||
-    !texture ||
-    !Object.keys(motions).length ||
-    !isValidMotions(motions)
-  ) {
-    throw new Error("failed to load resources");
-  }
+const createApp = (
+  resources: Resources,
+  container: Element,
+  {
+    loader,
+    model3Json,
+    motions,
+    sounds,
+    lookAt = "container",
+    autoPause = true,
+    layout,
+    parseMode,
+  }: {
+    loader: ResourceLoader;
+    model3Json: Model3Json | null;
+    motions: ModelFilePaths["motions"];
+    sounds: ModelFilePaths["sounds"];
+    parseMode: ParseMode;
+  } & Pick<Live2DConfig, "lookAt" | "autoPause" | "layout">
+) => {
+  const { moc, textures, expressions, physics, pose, userData } = resources;
 
   const { clientWidth: width, clientHeight: height } = container;
-  const app = new PIXI.Application({ width, height, transparent: true });
+  const app = new PIXI.Application({
+    width,
+    height,
+    transparent: true,
+    resolution: window.devicePixelRatio || 1,
+    autoDensity: true,
+  });
   container.appendChild(app.view);
 
   const model = new ModelBuilder({
-    mocBuffer: moc.data,
-    texture: texture.texture,
+    mocBuffer: moc,
+    textures,
+    physics3Json: physics,
+    pose3Json: pose,
+    userData3Json: userData,
+    groups: model3Json?.Groups,
+    hitAreas: model3Json?.HitAreas,
   }).build();
+  const eyeBlinkIds = model.animator.groups["EyeBlink"]?.ids;
+  if (eyeBlinkIds && eyeBlinkIds.length) {
+    model.addController(
+      new EyeBlinkController(model.coreModel, { parameterIds: eyeBlinkIds })
+    );
+  }
+  model.addController(new BreathController(model.coreModel));
+  const lipSyncIds = model.animator.groups["LipSync"]?.ids;
+  model.setLipSync(
+    new LipSyncController(model.coreModel, {
+      parameterIds:
+        lipSyncIds && lipSyncIds.length ? lipSyncIds : ["ParamMouthOpenY"],
+    })
+  );
+  const gaze = new GazeController(model.coreModel);
+  model.addController(gaze);
+  const stopTrackingPointer = lookAt
+    ? trackPointer(container, gaze, { page: lookAt === "page" })
+    : () => undefined;
   app.stage.addChild(model, model.masks);
-  model.position.set(width / 2, height / 2);
-  model.scale.set(width, height);
-  model.masks.resize(width, height);
+  let currentLayout = layout;
+  layoutModel(model, width, height, currentLayout);
+
+  // Also picks up devicePixelRatio changes, e.g. when zooming.
+  const resizeObserver = new ResizeObserver(() => {
+    const { clientWidth, clientHeight } = container;
+    if (!clientWidth || !clientHeight) return;
+    app.renderer.resolution = window.devicePixelRatio || 1;
+    app.renderer.resize(clientWidth, clientHeight);
+    layoutModel(model, clientWidth, clientHeight, currentLayout);
+  });
+  resizeObserver.observe(container);
 
-  Object.keys(motions).forEach((motionName) =>
-    model.addAnimation(motionName, motions[motionName].data)
+  const motionSettings = model3Json ? getMotionNames(model3Json) : [];
+  model.on("motionload", ({ motion, diagnostics }) => {
+    if (diagnostics.length) {
+      console.warn(formatDiagnostics(`motion3.json (${motion})`, diagnostics));
+    }
+  });
+  Object.entries(motions).forEach(([motionName, path]) => {
+    const motionSetting = motionSettings.find(
+      ({ name }) => name === motionName
+    );
+    model.addLazyAnimation(motionName, () => loader.loadJson(path), {
+      fadeInTime: motionSetting?.motion.FadeInTime,
+      fadeOutTime: motionSetting?.motion.FadeOutTime,
+      sound: sounds[motionName],
+      parseMode,
+    });
+  });
+  Object.entries(expressions).forEach(([expressionName, exp3Json]) =>
+    model.addExpression(expressionName, exp3Json)
   );
 
-  app.ticker.add((deltaTime) => {
-    model.update(deltaTime);
+  app.ticker.add(() => {
+    model.update(app.ticker.deltaMS / 1000);
     model.masks.update(app.renderer);
   });
+  // Nothing can be seen while hidden or offscreen, so stop rendering too.
+  // Paused from code, the ticker keeps running to show seeks and overrides.
+  const removePauseListener = model.clock.onPauseChange(() => {
+    if (
+      model.clock.isPausedBy("hidden") ||
+      model.clock.isPausedBy("offscreen")
+    ) {
+      app.ticker.stop();
+    } else {
+      app.ticker.start();
+    }
+  });
+  const stopAutoPause = autoPause
+    ? pauseWhenHidden(container, model.clock)
+    : () => undefined;
+
+  const destroy = () => {
+    resizeObserver.disconnect();
+    stopTrackingPointer();
+    removePauseListener();
+    stopAutoPause();
+    app.ticker.stop();
+    // The model destroys its own meshes and masks.
+    app.stage.removeChildren();
+    model.destroy();
+    app.destroy(true);
+  };
 
-  return { app, model };
+  const setLayout = (nextLayout: Live2DConfig["layout"]) => {
+    currentLayout = nextLayout;
+    layoutModel(
+      model,
+      app.renderer.width / app.renderer.resolution,
+      app.renderer.height / app.renderer.resolution,
+      currentLayout
+    );
+  };
+
+  return { app, model, setLayout, destroy };
 };
 
-export const setup = async () => {
-  if (!isValidLive2DConfigType(window.Live2DConfig)) {
-    console.warn("missing valid Live2DConfig.");
-    return;
+export type Live2DInstance = ReturnType<typeof createApp>;
+
+/**
+ * Loads a model into the container and starts rendering it in an app of its
+ * own. Can be called for as many containers as needed; destroy() releases
+ * the app, the model and everything that was loaded for it.
+ */
+export const createLive2D = async (
+  container: Element,
+  config: Live2DConfig,
+  {
+    onProgress,
+  }: {
+    /**
+     * Called as files load, e.g. for a loading bar. The total is null while
+     * the model3.json is read.
+     */
+    onProgress?: (progress: LoadProgress) => void;
+  } = {}
+): Promise<Live2DInstance> => {
+  const { value: live2DConfig, diagnostics } = parseLive2DConfig(config);
+  if (diagnostics.length) {
+    console.warn(formatDiagnostics("Live2DConfig", diagnostics));
   }
 
-  const container = document.querySelector("#l2d");
-  if (!container) return;
+  const loader = new ResourceLoader({
+    retries: live2DConfig.retries,
+    waitForFiles: "model" in live2DConfig,
+  });
+  if (onProgress) loader.onProgress(onProgress);
 
   try {
-    const resources = await loadResources([
-      {
-        name: "moc",
-        path: window.Live2DConfig.moc,
-        option: { xhrType: PIXI.LoaderResource.XHR_RESPONSE_TYPE.BUFFER },
-      },
-      {
-        name: "texture",
-        path: window.Live2DConfig.texture,
-      },
-      {
-        name: "motions",
-        paths: window.Live2DConfig.motions,
-        option: { xhrType: PIXI.LoaderResource.XHR_RESPONSE_TYPE.JSON },
+    const { model3Json, filePaths } = await getModelSettings(
+      loader,
+      live2DConfig
+    );
+    const resources = await loadResources(loader, filePaths);
+
+    const instance = createApp(resources, container, {
+      loader,
+      model3Json,
+      motions: filePaths.motions,
+      sounds: filePaths.sounds,
+      lookAt: live2DConfig.lookAt,
+      autoPause: live2DConfig.autoPause,
+      layout: live2DConfig.layout,
+      parseMode: live2DConfig.strict ? "strict" : "lenient",
+    });
+    return {
+      ...instance,
+      destroy: () => {
+        instance.destroy();
+        loader.release();
       },
-    ]);
+    };
+  } catch (e) {
+    loader.release();
+    throw e;
+  }
+};
 
-    return createApp(resources, container);
+export const setup = async () => {
+  const container = document.querySelector("#l2d");
+  if (!container) return;
+
+  if (!window.Live2DConfig) {
+    console.warn("missing Live2DConfig.");
+    return;
+  }
+
+  try {
+    return await createLive2D(container, window.Live2DConfig);
   } catch (e) {
     console.error(e);
   }
@@ -1,7 +1,31 @@
 interface Window {
   Live2DConfig?: {
+    /** Path to model3.json. Takes precedence over the hand-listed files. */
+    model?: string;
     moc?: string;
-    texture?: string;
+    /** Texture path, or one path per texture page in texture index order. */
+    texture?: string | string[];
     motions?: Record<string, string>;
+    /**
+     * Where the model follows the pointer: over the container (default), over
+     * the whole page, or not at all.
+     */
+    lookAt?: "container" | "page" | false;
+    /**
+     * Stop animating while the page is hidden or the container is scrolled
+     * out of view (default true).
+     */
+    autoPause?: boolean;
+    /** How often a file that failed to load is asked for again (default 2). */
+    retries?: number;
+    /** How the model is fitted into the container, see layout.ts. */
+    layout?: import("../js/modules/layout").LayoutOptions;
+    /**
+     * Fail on any problem in this config or the motions instead of skipping
+     * what is broken with a warning.
+     */
+    strict?: boolean;
   };
+  /** Shows a model in any container; see createLive2D in setup.ts. */
+  createLive2D?: typeof import("../js/modules/setup").createLive2D;
 }